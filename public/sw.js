@@ -1,5 +1,5 @@
 // AI Secretary - Service Worker
-// Handles: caching for offline, periodic notification checks
+// Handles: caching for offline, persistent reminder scheduling
 
 const CACHE_NAME = 'ai-secretary-v1';
 const ASSETS_TO_CACHE = [
@@ -28,14 +28,16 @@ self.addEventListener('activate', (event) => {
     );
     self.clients.claim();
 
-    // Start periodic notification check
-    startNotificationCheck();
+    // Re-arm persisted reminders
+    event.waitUntil(armReminders());
 });
 
 // ===== Fetch (Network first, fallback to cache) =====
 self.addEventListener('fetch', (event) => {
     // Skip non-GET requests
     if (event.request.method !== 'GET') return;
+    // API responses are live data (sync state, feeds); the page keeps its own offline copies
+    if (new URL(event.request.url).pathname.startsWith('/api/')) return;
 
     event.respondWith(
         fetch(event.request)
@@ -62,108 +64,606 @@ self.addEventListener('fetch', (event) => {
 self.addEventListener('message', (event) => {
     if (event.data && event.data.type === 'SCHEDULE_NOTIFICATIONS') {
         const events = event.data.events || [];
-        scheduleNotifications(events);
+        event.waitUntil(scheduleNotifications(events, event.data.defaultReminders, event.data.digests, event.data.taskReminders));
     }
 
     if (event.data && event.data.type === 'SKIP_WAITING') {
         self.skipWaiting();
     }
+
+    // A page came up: hand it actions taken while no window was open
+    if (event.data && event.data.type === 'CLIENT_READY' && event.source) {
+        event.waitUntil(flushPendingActions(event.source));
+    }
 });
 
 // ===== Notification Click =====
+const SNOOZE_ACTIONS = { 'snooze-5': 5, 'snooze-15': 15, 'snooze-60': 60 };
+
 self.addEventListener('notificationclick', (event) => {
     event.notification.close();
-    event.waitUntil(
-        self.clients.matchAll({ type: 'window' }).then((clients) => {
-            // Focus existing window or open new one
-            for (const client of clients) {
-                if (client.url.includes('/') && 'focus' in client) {
-                    return client.focus();
-                }
-            }
-            return self.clients.openWindow('/');
-        })
-    );
+    const data = event.notification.data || {};
+
+    if (event.action in SNOOZE_ACTIONS && data.reminder) {
+        event.waitUntil(snoozeReminder(data.reminder, SNOOZE_ACTIONS[event.action]));
+        return;
+    }
+    if (event.action === 'done' && data.eventId) {
+        event.waitUntil(markEventDone(data.eventId, data.date));
+        return;
+    }
+    if (event.action === 'task-done' && data.taskId) {
+        event.waitUntil(markTaskDone(data.taskId));
+        return;
+    }
+    // 'open' or a click on the notification body; digests and tasks carry only a date
+    event.waitUntil(openEvent(data.eventId, data.date));
 });
 
+async function openEvent(eventId, date) {
+    const clients = await self.clients.matchAll({ type: 'window' });
+    // Focus existing window or open new one
+    for (const client of clients) {
+        if (client.url.includes('/') && 'focus' in client) {
+            await client.focus();
+            if (date) client.postMessage({ type: 'OPEN_EVENT', eventId, date });
+            return;
+        }
+    }
+    let url = '/';
+    if (date) url = `/?date=${toDateKey(new Date(date))}`;
+    if (date && eventId) url += `&event=${encodeURIComponent(eventId)}`;
+    await self.clients.openWindow(url);
+}
+
+async function markEventDone(eventId, date) {
+    // Update the worker's own copy so remaining reminders stop right away
+    const events = (await dbGet('events')) || [];
+    await dbSet('events', events.map((e) => {
+        if (e.id !== eventId) return e;
+        return { ...e, doneDates: Array.from(new Set([...(e.doneDates || []), occurrenceKey(e, new Date(date))])) };
+    }));
+
+    const action = { type: 'EVENT_DONE', eventId, date };
+    const clients = await self.clients.matchAll({ type: 'window' });
+    if (clients.length > 0) {
+        clients.forEach((client) => client.postMessage(action));
+    } else {
+        const pending = (await dbGet('pendingActions')) || [];
+        await dbSet('pendingActions', [...pending, action]);
+    }
+    await armReminders({ rescheduled: true });
+}
+
+async function markTaskDone(taskId) {
+    // Tasks live in the page's storage; drop this one's reminders here meanwhile
+    const reminders = (await dbGet('taskReminders')) || [];
+    await dbSet('taskReminders', reminders.filter((r) => r.taskId !== taskId));
+
+    const action = { type: 'TASK_DONE', taskId };
+    const clients = await self.clients.matchAll({ type: 'window' });
+    if (clients.length > 0) {
+        clients.forEach((client) => client.postMessage(action));
+    } else {
+        const pending = (await dbGet('pendingActions')) || [];
+        await dbSet('pendingActions', [...pending, action]);
+    }
+    await armReminders({ rescheduled: true });
+}
+
+async function flushPendingActions(client) {
+    const pending = (await dbGet('pendingActions')) || [];
+    pending.forEach((action) => client.postMessage(action));
+    await dbSet('pendingActions', []);
+}
+
+async function snoozeReminder(reminder, minutes) {
+    const now = Date.now();
+    const fireAt = now + minutes * 60 * 1000;
+    const snoozed = ((await dbGet('snoozed')) || []).filter((r) => r.fireAt > now - MISSED_WINDOW_MS);
+    const baseKey = reminder.key.split('~')[0];
+    snoozed.push({ ...reminder, key: `${baseKey}~snooze-${fireAt}`, fireAt, snoozed: true });
+    await dbSet('snoozed', snoozed);
+    await armReminders();
+}
+
+// ===== Persistent State (IndexedDB) =====
+// The schedule lives here so reminders survive the worker being terminated
+const DB_NAME = 'ai-secretary-sw';
+const DB_STORE = 'state';
+
+let dbPromise = null;
+
+function openDB() {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+async function dbGet(key) {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(DB_STORE, 'readonly').objectStore(DB_STORE).get(key);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function dbSet(key, value) {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(DB_STORE, 'readwrite');
+        tx.objectStore(DB_STORE).put(value, key);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+// ===== App Data (IndexedDB, mirrors src/lib/storage.ts) =====
+// The page's own saved events, read-only here: changes go through the page so
+// they get stamped for sync. The upgrade must match openDB there.
+const APP_DB_NAME = 'ai-secretary';
+const APP_DB_VERSION = 2;
+const APP_SCHEMA_VERSION = 3;
+const APP_DATA_STORE = 'data';
+const APP_EVENTS_KEY = 'events';
+
+let appDbPromise = null;
+
+function openAppDB() {
+    if (!appDbPromise) {
+        appDbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(APP_DB_NAME, APP_DB_VERSION);
+            request.onupgradeneeded = (e) => {
+                if (e.oldVersion < 1) {
+                    request.result.createObjectStore(APP_DATA_STORE);
+                    request.result.createObjectStore('quarantine', { autoIncrement: true });
+                }
+                if (e.oldVersion < 2) request.result.createObjectStore('snapshots');
+            };
+            request.onsuccess = () => {
+                request.result.onversionchange = () => {
+                    request.result.close();
+                    appDbPromise = null;
+                };
+                resolve(request.result);
+            };
+            request.onerror = () => {
+                appDbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return appDbPromise;
+}
+
+// The saved events, or null when there are none in a version this worker understands
+async function readAppEvents() {
+    const db = await openAppDB();
+    const record = await new Promise((resolve, reject) => {
+        const request = db.transaction(APP_DATA_STORE, 'readonly').objectStore(APP_DATA_STORE).get(APP_EVENTS_KEY);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    return record && record.version === APP_SCHEMA_VERSION && Array.isArray(record.events) ? record.events : null;
+}
+
 // ===== Notification Scheduling =====
 let scheduledTimeouts = [];
 
-function scheduleNotifications(events) {
-    // Clear existing timeouts
+const SCHEDULE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MISSED_WINDOW_MS = 12 * 60 * 60 * 1000; // Older missed reminders are dropped
+const REMINDER_TAG_PREFIX = 'event-';
+const DIGEST_TAG_PREFIX = 'digest-';
+const DIGEST_MISSED_WINDOW_MS = 2 * 60 * 60 * 1000; // A morning digest hours late is just noise
+const TASK_TAG_PREFIX = 'task-';
+const DEFAULT_REMINDERS = [10, 0]; // Mirrors src/lib/reminders.ts
+
+// Mirrors formatReminderOffset in src/lib/reminders.ts
+function formatReminderOffset(minutes) {
+    if (minutes === 0) return '開始時';
+    if (minutes % 10080 === 0) return `${minutes / 10080}週間`;
+    if (minutes % 1440 === 0) return `${minutes / 1440}日`;
+    if (minutes % 60 === 0) return `${minutes / 60}時間`;
+    return `${minutes}分`;
+}
+
+// Notification Triggers deliver at a timestamp even when the worker is asleep
+const supportsTriggers = typeof TimestampTrigger !== 'undefined' && 'showTrigger' in Notification.prototype;
+
+async function scheduleNotifications(events, defaultReminders, digests, taskReminders) {
+    await dbSet('events', events);
+    await dbSet('defaultReminders', Array.isArray(defaultReminders) ? defaultReminders : DEFAULT_REMINDERS);
+    await dbSet('digests', Array.isArray(digests) ? digests : []);
+    await dbSet('taskReminders', Array.isArray(taskReminders) ? taskReminders : []);
+    await armReminders({ rescheduled: true });
+}
+
+// Every reminder firing within [from, to], keyed per occurrence and offset
+function collectReminders(events, defaults, from, to) {
+    const remindersFor = (event) => Array.from(new Set(Array.isArray(event.reminders) ? event.reminders : defaults));
+
+    // Expand recurring events far enough ahead to cover the longest reminder offset
+    const maxOffset = Math.max(0, ...events.flatMap(remindersFor));
+    const rangeEnd = new Date(to + maxOffset * 60 * 1000);
+    const occurrences = events.flatMap((event) => expandOccurrences(event, new Date(from), rangeEnd));
+
+    return occurrences.flatMap((event) => {
+        // Occurrences marked 完了 from a notification need no further reminders
+        if ((event.doneDates || []).includes(occurrenceKey(event, new Date(event.date)))) return [];
+        const eventTime = new Date(event.date).getTime();
+        return remindersFor(event)
+            .map((offset) => ({
+                key: `${event.id}-${toDateKey(new Date(event.date))}-${offset}`,
+                fireAt: eventTime - offset * 60 * 1000,
+                offset,
+                event,
+            }))
+            .filter((r) => r.fireAt > from && r.fireAt <= to);
+    });
+}
+
+// Ordered by importance: browsers show only the first Notification.maxActions
+const NOTIFICATION_ACTIONS = [
+    { action: 'snooze-5', title: '5分後' },
+    { action: 'done', title: '完了' },
+    { action: 'snooze-15', title: '15分後' },
+    { action: 'snooze-60', title: '1時間後' },
+    { action: 'open', title: '開く' },
+];
+
+// 「10:00」, plus the event's own clock when its zone reads differently: 「3:00（New York 14:00）」
+function formatReminderTime(event) {
+    const date = new Date(event.date);
+    const timeStr = date.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' });
+    if (!event.timeZone || event.allDay || zoneOffset(date.getTime(), event.timeZone) === -date.getTimezoneOffset() * 60000) {
+        return timeStr;
+    }
+    const zoned = date.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit', timeZone: event.timeZone });
+    return `${timeStr}（${event.timeZone.split('/').pop().replace(/_/g, ' ')} ${zoned}）`;
+}
+
+function showReminder(reminder, options = {}) {
+    const { event, offset } = reminder;
+    const timeStr = formatReminderTime(event);
+    let title = offset === 0 ? '⏰ 予定の時間です！' : '📅 まもなく予定があります';
+    let body = offset === 0
+        ? `${event.title}`
+        : `${formatReminderOffset(offset)}後: ${timeStr} ${event.title}`;
+    if (reminder.snoozed) {
+        title = '💤 スヌーズした予定です';
+        body = `${timeStr} ${event.title}`;
+    }
+    if (options.missed) {
+        title = '⚠️ 見逃した通知があります';
+        body = `${timeStr} ${event.title}（通知予定時刻を過ぎました）`;
+    }
+
+    const notification = {
+        body: `${body}${event.description ? '\n' + event.description : ''}`,
+        icon: '/icons/icon-192.png',
+        badge: '/icons/icon-192.png',
+        tag: `${REMINDER_TAG_PREFIX}${reminder.key}`,
+        renotify: true,
+        requireInteraction: true,
+        data: { eventId: event.id, date: event.date, reminder: { key: reminder.key, offset, event } },
+        actions: NOTIFICATION_ACTIONS.slice(0, Notification.maxActions || NOTIFICATION_ACTIONS.length),
+    };
+    if (options.trigger) {
+        notification.showTrigger = new TimestampTrigger(reminder.fireAt);
+    }
+    return self.registration.showNotification(title, notification);
+}
+
+const TASK_ACTIONS = [
+    { action: 'task-done', title: '完了' },
+    { action: 'open', title: '開く' },
+];
+
+// Worded by the page: daily summaries (buildDigests in src/lib/digest.ts) and
+// task due reminders (buildTaskReminders in src/lib/tasks.ts); `key` is prefixed
+function showNotice(notice, options = {}) {
+    const { content } = notice;
+    const notification = {
+        body: content.body,
+        icon: '/icons/icon-192.png',
+        badge: '/icons/icon-192.png',
+        tag: notice.key,
+        renotify: true,
+        data: { date: `${content.date}T00:00:00`, taskId: content.taskId },
+    };
+    if (content.taskId) {
+        notification.actions = TASK_ACTIONS.slice(0, Notification.maxActions || TASK_ACTIONS.length);
+    }
+    if (options.trigger) {
+        notification.showTrigger = new TimestampTrigger(notice.fireAt);
+    }
+    return self.registration.showNotification(content.title, notification);
+}
+
+async function markDelivered(keys) {
+    const delivered = (await dbGet('delivered')) || {};
+    const now = Date.now();
+    keys.forEach((key) => {
+        delivered[key] = now;
+    });
+    // Forget keys once they can no longer be rescheduled or caught up
+    for (const [key, at] of Object.entries(delivered)) {
+        if (now - at > 2 * SCHEDULE_WINDOW_MS) delete delivered[key];
+    }
+    await dbSet('delivered', delivered);
+}
+
+/**
+ * Re-arms reminders from the persisted schedule. Runs on startup, activate,
+ * periodic sync and whenever a page sends a new schedule. Reminders whose
+ * time passed while the worker was not running are shown as missed.
+ * Runs are queued so overlapping triggers never show a reminder twice.
+ */
+let armQueue = Promise.resolve();
+
+function armReminders(options = {}) {
+    armQueue = armQueue
+        .then(() => runArmReminders(options))
+        .catch((err) => console.error('[SW] Failed to arm reminders:', err));
+    return armQueue;
+}
+
+async function runArmReminders(options) {
+    let events = await dbGet('events');
+    // No schedule handed over yet: read the app's saved events directly
+    if (!events && Notification.permission === 'granted') {
+        events = await readAppEvents().catch(() => null);
+    }
+    if (!events) {
+        // Nothing persisted yet: ask any open page for its events once
+        const clients = await self.clients.matchAll({ type: 'window' });
+        clients.forEach((client) => client.postMessage({ type: 'REQUEST_EVENTS' }));
+        return;
+    }
+
+    const defaults = (await dbGet('defaultReminders')) || DEFAULT_REMINDERS;
+    const delivered = (await dbGet('delivered')) || {};
+    const now = Date.now();
+    const lastCheck = (await dbGet('lastCheck')) || now;
+    const snoozed = (await dbGet('snoozed')) || [];
+    const snoozedWithin = (from, to) => snoozed.filter((r) => r.fireAt > from && r.fireAt <= to);
+    // Digests and task reminders share the delivered bookkeeping under their own key spaces
+    const notices = [
+        ...((await dbGet('digests')) || []).map((d) => ({
+            key: `${DIGEST_TAG_PREFIX}${d.key}`, fireAt: d.fireAt, content: d, missedWindow: DIGEST_MISSED_WINDOW_MS,
+        })),
+        ...((await dbGet('taskReminders')) || []).map((t) => ({
+            key: `${TASK_TAG_PREFIX}${t.key}`, fireAt: t.fireAt, content: t, missedWindow: MISSED_WINDOW_MS,
+        })),
+    ];
+    const noticesWithin = (from, to) => notices.filter((n) => n.fireAt > from && n.fireAt <= to);
+
+    // Clear existing timeouts and pending triggered notifications
     scheduledTimeouts.forEach((t) => clearTimeout(t));
     scheduledTimeouts = [];
+    if (supportsTriggers && options.rescheduled) {
+        const pending = await self.registration.getNotifications({ includeTriggered: true });
+        pending
+            .filter((n) => [REMINDER_TAG_PREFIX, DIGEST_TAG_PREFIX, TASK_TAG_PREFIX].some((prefix) => n.tag.startsWith(prefix)) &&
+                n.showTrigger && n.showTrigger.timestamp > now)
+            .forEach((n) => n.close());
+    }
 
-    const now = Date.now();
-    const REMINDER_MINUTES = 10; // Notify 10 min before
+    // Catch up on reminders that came due while the worker was asleep
+    const missedFrom = Math.max(lastCheck, now - MISSED_WINDOW_MS);
+    const missed = [...collectReminders(events, defaults, missedFrom, now), ...snoozedWithin(missedFrom, now)]
+        .filter((r) => !delivered[r.key]);
+    await Promise.all(missed.map((r) => showReminder(r, { missed: true })));
+    const missedNotices = noticesWithin(lastCheck, now)
+        .filter((n) => n.fireAt > now - n.missedWindow && !delivered[n.key]);
+    await Promise.all(missedNotices.map((n) => showNotice(n)));
 
-    events.forEach((event) => {
-        const eventTime = new Date(event.date).getTime();
-        const notifyTime = eventTime - REMINDER_MINUTES * 60 * 1000;
-        const delay = notifyTime - now;
-
-        // Schedule if within next 24 hours and in the future
-        if (delay > 0 && delay < 24 * 60 * 60 * 1000) {
-            const timeout = setTimeout(() => {
-                const eventDate = new Date(event.date);
-                const timeStr = eventDate.toLocaleTimeString('ja-JP', {
-                    hour: '2-digit',
-                    minute: '2-digit',
-                });
+    const upcoming = [
+        ...collectReminders(events, defaults, now, now + SCHEDULE_WINDOW_MS),
+        ...snoozedWithin(now, now + SCHEDULE_WINDOW_MS),
+    ];
+    const triggered = [];
+    for (const reminder of upcoming) {
+        if (supportsTriggers) {
+            if (delivered[reminder.key] && !options.rescheduled) continue;
+            await showReminder(reminder, { trigger: true });
+            triggered.push(reminder.key);
+            continue;
+        }
+        const timeout = setTimeout(() => {
+            showReminder(reminder).then(() => markDelivered([reminder.key]));
+        }, reminder.fireAt - now);
+        scheduledTimeouts.push(timeout);
+    }
+    const upcomingNotices = noticesWithin(now, now + SCHEDULE_WINDOW_MS);
+    for (const n of upcomingNotices) {
+        if (supportsTriggers) {
+            if (delivered[n.key] && !options.rescheduled) continue;
+            await showNotice(n, { trigger: true });
+            triggered.push(n.key);
+            continue;
+        }
+        const timeout = setTimeout(() => {
+            showNotice(n).then(() => markDelivered([n.key]));
+        }, n.fireAt - now);
+        scheduledTimeouts.push(timeout);
+    }
 
-                self.registration.showNotification('📅 まもなく予定があります', {
-                    body: `${timeStr} ${event.title}${event.description ? '\n' + event.description : ''}`,
-                    icon: '/icons/icon-192.png',
-                    badge: '/icons/icon-192.png',
-                    tag: `event-${event.id}`,
-                    renotify: true,
-                    requireInteraction: true,
-                    data: { eventId: event.id },
-                });
-            }, delay);
+    await markDelivered([...missed.map((r) => r.key), ...missedNotices.map((n) => n.key), ...triggered]);
+    await dbSet('lastCheck', now);
+
+    console.log(`[SW] Scheduled ${upcoming.length} notifications and ${upcomingNotices.length} digests and task reminders (${missed.length} missed)`);
+}
+
+// ===== Recurrence (mirrors src/lib/recurrence.ts) =====
+const MAX_RECURRENCE_ITERATIONS = 5000;
+
+function toDateKey(date) {
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${m}-${d}`;
+}
 
-            scheduledTimeouts.push(timeout);
+// Timed events with a zone repeat by that zone's calendar (seriesZone in recurrence.ts)
+function seriesZone(event) {
+    return event.allDay ? undefined : event.timeZone;
+}
+
+function occurrenceKey(event, date) {
+    const zone = seriesZone(event);
+    return toDateKey(zone ? toZonedTime(date, zone) : date);
+}
+
+function periodDates(start, rule, k) {
+    const interval = Math.max(1, rule.interval || 1);
+    const y = start.getFullYear();
+    const mo = start.getMonth();
+    const day = start.getDate();
+    const h = start.getHours();
+    const min = start.getMinutes();
+
+    switch (rule.frequency) {
+        case 'daily':
+            return [new Date(y, mo, day + k * interval, h, min)];
+        case 'weekly': {
+            const weekStartDay = day - start.getDay() + k * interval * 7;
+            const weekdays = rule.weekdays && rule.weekdays.length > 0
+                ? [...rule.weekdays].sort((a, b) => a - b)
+                : [start.getDay()];
+            return weekdays
+                .map((wd) => new Date(y, mo, weekStartDay + wd, h, min))
+                .filter((d) => d >= start);
         }
+        case 'monthly': {
+            const d = new Date(y, mo + k * interval, day, h, min);
+            return d.getDate() === day ? [d] : [];
+        }
+        case 'yearly': {
+            const d = new Date(y + k * interval, mo, day, h, min);
+            return d.getMonth() === mo ? [d] : [];
+        }
+        default:
+            return [];
+    }
+}
 
-        // Also notify at the event time
-        const delayExact = eventTime - now;
-        if (delayExact > 0 && delayExact < 24 * 60 * 60 * 1000) {
-            const timeout = setTimeout(() => {
-                const eventDate = new Date(event.date);
-                const timeStr = eventDate.toLocaleTimeString('ja-JP', {
-                    hour: '2-digit',
-                    minute: '2-digit',
-                });
+// Without a count, periods before the range can be skipped outright
+function firstPeriodFor(start, rule, rangeStart) {
+    if (rule.count || rangeStart <= start) return 0;
+    const interval = Math.max(1, rule.interval || 1);
+    const days = Math.floor((rangeStart.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+    if (rule.frequency === 'daily') return Math.max(0, Math.floor(days / interval) - 1);
+    if (rule.frequency === 'weekly') return Math.max(0, Math.floor(days / 7 / interval) - 1);
+    return 0;
+}
 
-                self.registration.showNotification('⏰ 予定の時間です！', {
-                    body: `${event.title}${event.description ? '\n' + event.description : ''}`,
-                    icon: '/icons/icon-192.png',
-                    badge: '/icons/icon-192.png',
-                    tag: `event-now-${event.id}`,
-                    renotify: true,
-                    requireInteraction: true,
-                    data: { eventId: event.id },
-                });
-            }, delayExact);
+function expandOccurrences(event, rangeStart, rangeEnd) {
+    const rule = event.recurrence;
+    if (!rule) {
+        const start = new Date(event.date);
+        return start >= rangeStart && start <= rangeEnd ? [event] : [];
+    }
+    // Laid out in wall-clock time of the event's zone, each start converted back
+    const zone = seriesZone(event);
+    const start = zone ? toZonedTime(new Date(event.date), zone) : new Date(event.date);
 
-            scheduledTimeouts.push(timeout);
+    let until = null;
+    if (rule.until) {
+        const [uy, um, ud] = rule.until.split('-').map(Number);
+        until = new Date(uy, um - 1, ud, 23, 59, 59, 999);
+    }
+    const exdates = new Set(rule.exdates || []);
+    const result = [];
+    let produced = 0;
+
+    const searchFrom = zone ? toZonedTime(rangeStart, zone) : rangeStart;
+    for (let k = firstPeriodFor(start, rule, searchFrom), i = 0; i < MAX_RECURRENCE_ITERATIONS; k++, i++) {
+        for (const wall of periodDates(start, rule, k)) {
+            const occ = zone ? fromZonedTime(wall, zone) : wall;
+            if (occ > rangeEnd || (until && wall > until) || (rule.count && produced >= rule.count)) {
+                return result;
+            }
+            produced++;
+            if (occ >= rangeStart && !exdates.has(toDateKey(wall))) {
+                result.push({ ...event, date: occ.toISOString() });
+            }
         }
-    });
+    }
+    return result;
+}
+
+// ===== Time Zones (mirrors src/lib/timezone.ts) =====
+const zoneFormatters = new Map();
+
+function wallClockParts(instant, zone) {
+    let dtf = zoneFormatters.get(zone);
+    if (!dtf) {
+        dtf = new Intl.DateTimeFormat('en-US', {
+            timeZone: zone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        });
+        zoneFormatters.set(zone, dtf);
+    }
+    const p = Object.fromEntries(dtf.formatToParts(new Date(instant)).map((x) => [x.type, x.value]));
+    return { year: +p.year, month: +p.month, day: +p.day, hour: +p.hour, minute: +p.minute, second: +p.second };
+}
+
+function zoneOffset(instant, zone) {
+    const p = wallClockParts(instant, zone);
+    const whole = instant - (((instant % 1000) + 1000) % 1000);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - whole;
+}
 
-    console.log(`[SW] Scheduled ${scheduledTimeouts.length} notifications`);
+function toZonedTime(instant, zone) {
+    const p = wallClockParts(instant.getTime(), zone);
+    return new Date(p.year, p.month - 1, p.day, p.hour, p.minute, p.second, instant.getMilliseconds());
 }
 
-// ===== Periodic check (every 30 min) =====
+function fromZonedTime(wall, zone) {
+    const utc = Date.UTC(
+        wall.getFullYear(), wall.getMonth(), wall.getDate(),
+        wall.getHours(), wall.getMinutes(), wall.getSeconds(), wall.getMilliseconds()
+    );
+    const DAY = 24 * 60 * 60 * 1000;
+    const before = zoneOffset(utc - DAY, zone);
+    const after = zoneOffset(utc + DAY, zone);
+    const valid = [utc - before, utc - after].filter((t, i) => zoneOffset(t, zone) === (i === 0 ? before : after));
+    return new Date(valid.length > 0 ? Math.min(...valid) : utc - before);
+}
+
+// ===== Periodic check =====
 let checkInterval = null;
 
+// Only runs while the worker is alive; periodic sync covers the rest
 function startNotificationCheck() {
     if (checkInterval) clearInterval(checkInterval);
     checkInterval = setInterval(() => {
-        // Request events from client
-        self.clients.matchAll({ type: 'window' }).then((clients) => {
-            clients.forEach((client) => {
-                client.postMessage({ type: 'REQUEST_EVENTS' });
-            });
-        });
+        armReminders();
     }, 30 * 60 * 1000); // Every 30 minutes
 }
+
+self.addEventListener('periodicsync', (event) => {
+    if (event.tag === 'check-reminders') {
+        event.waitUntil(armReminders());
+    }
+});
+
+// The worker script re-runs each time the browser starts it up
+armReminders();
+startNotificationCheck();
@@ -0,0 +1,82 @@
+// Minimal OpenAI-compatible chat completions stub for trying the LLM
+// assistant provider without a real model:
+//
+//   npm run mock:llm
+//   ASSISTANT_LLM_BASE_URL=http://localhost:4010/v1 NEXT_PUBLIC_ASSISTANT_PROVIDER=llm npm run dev
+//
+// It answers with tool calls picked by keyword, the way a model would.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 4010);
+
+const completion = (message) => ({
+    id: `chatcmpl-mock-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: 'mock',
+    choices: [{ index: 0, message, finish_reason: message.tool_calls ? 'tool_calls' : 'stop' }],
+});
+
+const toolCall = (name, args) => ({
+    role: 'assistant',
+    content: null,
+    tool_calls: [{ id: `call_${Date.now()}`, type: 'function', function: { name, arguments: JSON.stringify(args) } }],
+});
+
+// The events the app sent, one JSON object per line of the system prompt
+const eventsFrom = (messages) =>
+    (messages.find((m) => m.role === 'system')?.content ?? '')
+        .split('\n')
+        .filter((line) => line.startsWith('{'))
+        .map((line) => JSON.parse(line));
+
+const reply = (messages) => {
+    const last = messages[messages.length - 1];
+    if (last.role === 'tool') {
+        const events = JSON.parse(last.content);
+        const lines = events.map((e) => `📌 ${e.date} ${e.title}`);
+        return { role: 'assistant', content: `予定は${events.length}件です！\n${lines.join('\n')}` };
+    }
+
+    const input = String(last.content ?? '');
+    const events = eventsFrom(messages);
+    const target = events.find((e) => input.includes(e.title));
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    tomorrow.setHours(10, 0, 0, 0);
+
+    if (input.includes('削除') && target) return toolCall('delete_event', { id: target.id, date: target.date });
+    if (input.includes('変更') && target) {
+        return toolCall('update_event', { id: target.id, date: target.date, start: tomorrow.toISOString() });
+    }
+    if (input.includes('追加')) {
+        const title = input.replace(/を?追加.*$/, '').trim() || '新しい予定';
+        return toolCall('add_event', { title, start: tomorrow.toISOString() });
+    }
+    if (input.includes('予定')) {
+        const from = new Date();
+        const to = new Date(from.getTime() + 7 * 24 * 60 * 60 * 1000);
+        return toolCall('list_events', { from: from.toISOString(), to: to.toISOString() });
+    }
+    return { role: 'assistant', content: `（モック）「${input}」を受け取りました 🤖` };
+};
+
+createServer((req, res) => {
+    if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+        res.writeHead(404).end();
+        return;
+    }
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+        try {
+            const { messages } = JSON.parse(body);
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(completion(reply(messages))));
+        } catch (err) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: { message: String(err) } }));
+        }
+    });
+}).listen(PORT, () => {
+    console.log(`mock LLM listening on http://localhost:${PORT}/v1`);
+});
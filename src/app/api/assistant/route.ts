@@ -0,0 +1,262 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { confirmDelete, type AssistantAction, type AssistantReply, type CalendarEvent } from '@/lib/calendar';
+import type { AssistantRequest } from '@/lib/assistant';
+
+// Chat completions against any OpenAI-compatible endpoint (OpenAI, Ollama,
+// LM Studio, scripts/mock-llm.mjs), configured with:
+//   ASSISTANT_LLM_BASE_URL  e.g. https://api.openai.com/v1
+//   ASSISTANT_LLM_API_KEY   sent as a bearer token when set
+//   ASSISTANT_LLM_MODEL     defaults to DEFAULT_MODEL
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const REQUEST_TIMEOUT_MS = 20000;
+
+interface ToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string | null;
+    tool_calls?: ToolCall[];
+    tool_call_id?: string;
+}
+
+const TOOLS = [
+    {
+        type: 'function',
+        function: {
+            name: 'list_events',
+            description: '指定した期間の予定を一覧する',
+            parameters: {
+                type: 'object',
+                properties: {
+                    from: { type: 'string', description: '期間の開始 (ISO 8601)' },
+                    to: { type: 'string', description: '期間の終了 (ISO 8601)' },
+                },
+                required: ['from', 'to'],
+            },
+        },
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'add_event',
+            description: '予定を追加する',
+            parameters: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    start: { type: 'string', description: '開始日時 (ISO 8601, タイムゾーン付き)' },
+                    end: { type: 'string', description: '終了日時 (ISO 8601)。不明なら省略' },
+                    all_day: { type: 'boolean' },
+                    description: { type: 'string' },
+                },
+                required: ['title', 'start'],
+            },
+        },
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'update_event',
+            description: '既存の予定を変更する。変更する項目だけ指定する。繰り返しの予定は date の回だけが変わる',
+            parameters: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', description: '予定一覧の id' },
+                    date: { type: 'string', description: '変更する回の、一覧にある開始日時 (date)' },
+                    title: { type: 'string' },
+                    start: { type: 'string', description: '開始日時 (ISO 8601)' },
+                    end: { type: 'string', description: '終了日時 (ISO 8601)' },
+                    description: { type: 'string' },
+                },
+                required: ['id', 'date'],
+            },
+        },
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'delete_event',
+            description: '既存の予定を削除する',
+            parameters: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', description: '予定一覧の id' },
+                    date: { type: 'string', description: '削除する回の、一覧にある開始日時 (date)' },
+                },
+                required: ['id', 'date'],
+            },
+        },
+    },
+];
+
+const buildSystemPrompt = ({ now, timeZone, events }: AssistantRequest) =>
+    [
+        'あなたは日本語で話す親しみやすい秘書です。ユーザーの予定管理を手伝ってください。',
+        `現在日時: ${now}（タイムゾーン: ${timeZone}）`,
+        '予定の確認・追加・変更・削除にはツールを使い、日時は必ずタイムゾーン付きの ISO 8601 で指定してください。',
+        '変更・削除では下の一覧の id と date を使ってください。繰り返しの予定は回ごとに並んでいます。readOnly の予定は変更できません。',
+        '削除は確認してから行うので、「削除しました」とは言わないでください。',
+        '返答は短く、絵文字を少し添えてください。',
+        '',
+        '予定一覧:',
+        ...events.map((e) => JSON.stringify(e)),
+    ].join('\n');
+
+const callModel = async (messages: ChatMessage[]): Promise<ChatMessage> => {
+    const baseUrl = process.env.ASSISTANT_LLM_BASE_URL!.replace(/\/+$/, '');
+    const apiKey = process.env.ASSISTANT_LLM_API_KEY;
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+            model: process.env.ASSISTANT_LLM_MODEL || DEFAULT_MODEL,
+            messages,
+            tools: TOOLS,
+            tool_choice: 'auto',
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        cache: 'no-store',
+    });
+    if (!response.ok) throw new Error(`upstream responded ${response.status}`);
+    const data = await response.json();
+    const message = data?.choices?.[0]?.message;
+    if (!message) throw new Error('empty completion');
+    return message;
+};
+
+const toISO = (value: unknown) => {
+    if (typeof value !== 'string') return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const parseArguments = (call: ToolCall): Record<string, unknown> => {
+    try {
+        return JSON.parse(call.function.arguments || '{}');
+    } catch {
+        return {};
+    }
+};
+
+// The occurrence a tool call means. A recurring event is listed once per
+// occurrence, so it takes the start too; guessing could move the wrong one.
+const findTarget = (events: AssistantRequest['events'], args: Record<string, unknown>) => {
+    const matches = events.filter((e) => e.id === args.id);
+    const start = toISO(args.date);
+    const exact = start ? matches.find((e) => toISO(e.date) === start) : undefined;
+    return exact ?? (matches.length === 1 ? matches[0] : undefined);
+};
+
+// Maps a tool call onto the action shape the rules engine returns
+const toAction = (call: ToolCall, events: AssistantRequest['events']): AssistantAction | null => {
+    const args = parseArguments(call);
+    const target = findTarget(events, args);
+
+    switch (call.function.name) {
+        case 'add_event': {
+            const date = toISO(args.start);
+            if (typeof args.title !== 'string' || !args.title.trim() || !date) return null;
+            const event: Partial<CalendarEvent> = {
+                title: args.title.trim(),
+                date,
+                end: toISO(args.end),
+                allDay: args.all_day === true || undefined,
+                description: typeof args.description === 'string' ? args.description : undefined,
+            };
+            return { type: 'add', event };
+        }
+        case 'update_event': {
+            if (!target || target.readOnly) return null;
+            const event: Partial<CalendarEvent> = { id: target.id };
+            if (typeof args.title === 'string' && args.title.trim()) event.title = args.title.trim();
+            const start = toISO(args.start);
+            const end = toISO(args.end);
+            if (start) event.date = start;
+            if (end) event.end = end;
+            // A new start without a new end keeps the length
+            else if (start && target.end) {
+                event.end = new Date(new Date(start).getTime() + new Date(target.end).getTime() - new Date(target.date).getTime()).toISOString();
+            }
+            if (typeof args.description === 'string') event.description = args.description;
+            // `date` names the occurrence: the page applies every change, title and memo included,
+            // to that occurrence alone (updateOccurrence)
+            return { type: 'update', event, date: target.date };
+        }
+        default:
+            return null;
+    }
+};
+
+const listEvents = (events: AssistantRequest['events'], args: Record<string, unknown>) => {
+    const from = toISO(args.from);
+    const to = toISO(args.to);
+    return events.filter((e) => (!to || e.date <= to) && (!from || (e.end ?? e.date) >= from));
+};
+
+const ACTION_FALLBACK_TEXT: Record<string, string> = {
+    add: '予定を追加しました！📝',
+    update: '予定を変更しました ✏️',
+};
+
+export async function POST(request: NextRequest) {
+    if (!process.env.ASSISTANT_LLM_BASE_URL) {
+        return NextResponse.json({ error: 'assistant endpoint is not configured' }, { status: 503 });
+    }
+
+    let body: AssistantRequest;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'invalid json' }, { status: 400 });
+    }
+    if (typeof body?.input !== 'string' || !Array.isArray(body.events)) {
+        return NextResponse.json({ error: 'input and events are required' }, { status: 400 });
+    }
+
+    const messages: ChatMessage[] = [
+        { role: 'system', content: buildSystemPrompt(body) },
+        { role: 'user', content: body.input },
+    ];
+
+    try {
+        const message = await callModel(messages);
+        const call = message.tool_calls?.[0];
+        if (!call) {
+            return NextResponse.json({ text: message.content ?? '' } satisfies AssistantReply);
+        }
+
+        // Listing runs here and goes back to the model to be put into words
+        if (call.function.name === 'list_events') {
+            const result = listEvents(body.events, parseArguments(call));
+            const followUp = await callModel([
+                ...messages,
+                message,
+                { role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) },
+            ]);
+            return NextResponse.json({ text: followUp.content ?? '', action: { type: 'list' } } satisfies AssistantReply);
+        }
+
+        // Deletes are only proposed: the same 「はい」 confirmation or series dialog as the rules
+        if (call.function.name === 'delete_event') {
+            const target = findTarget(body.events, parseArguments(call));
+            if (target) return NextResponse.json(confirmDelete(target, {}) satisfies AssistantReply);
+        }
+
+        const action = toAction(call, body.events);
+        if (!action) {
+            // The model's own text would claim a change that didn't happen
+            return NextResponse.json({ text: 'ごめんなさい、その予定はうまく処理できませんでした 🙏' } satisfies AssistantReply);
+        }
+        return NextResponse.json({ text: message.content || ACTION_FALLBACK_TEXT[action.type], action } satisfies AssistantReply);
+    } catch (err) {
+        const message = err instanceof Error ? err.message : 'completion failed';
+        return NextResponse.json({ error: message }, { status: 502 });
+    }
+}
@@ -0,0 +1,150 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList } from 'node:net';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Proxies remote .ics feeds so the browser is not blocked by CORS
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// Only public hosts: the proxy must not become a way into the server's own network.
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are checked against the IPv4 ranges.
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3],
+] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 127],
+    ['64:ff9b::', 96],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Errors raised while fetching carry the status to answer with
+const feedError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+const parseFeedUrl = (raw: string) => {
+    let url: URL;
+    try {
+        // webcal:// is how most calendar apps publish subscription links
+        url = new URL(raw.replace(/^webcals?:\/\//i, 'https://'));
+    } catch {
+        throw feedError('invalid url', 400);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw feedError('unsupported protocol', 400);
+    }
+    return url;
+};
+
+// Every address the host resolves to must be public. The fetch resolves again,
+// so a host that flips to a private address in between is not caught here.
+// FEEDS_ALLOW_PRIVATE_HOSTS=1 lifts this, e.g. to try a feed served from localhost.
+const assertPublicHost = async (url: URL) => {
+    if (process.env.FEEDS_ALLOW_PRIVATE_HOSTS === '1') return;
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    let addresses: { address: string; family: number }[];
+    try {
+        addresses = await lookup(hostname, { all: true, verbatim: true });
+    } catch {
+        throw feedError('host not found', 400);
+    }
+    const blocked = addresses.some(({ address, family }) => PRIVATE_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+    if (addresses.length === 0 || blocked) {
+        throw feedError('host not allowed', 400);
+    }
+};
+
+// Redirects are followed by hand so each hop gets the same host check
+const fetchFeed = async (start: URL, signal: AbortSignal) => {
+    let url = start;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        await assertPublicHost(url);
+        const response = await fetch(url, {
+            headers: { Accept: 'text/calendar, */*' },
+            signal,
+            cache: 'no-store',
+            redirect: 'manual',
+        });
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) return response;
+
+        await response.body?.cancel();
+        url = parseFeedUrl(new URL(location, url).href);
+    }
+    throw feedError('too many redirects', 502);
+};
+
+// Reads at most MAX_FEED_BYTES, cancelling the download as soon as it goes over
+const readFeedBody = async (response: Response) => {
+    const declared = Number(response.headers.get('content-length'));
+    if (declared > MAX_FEED_BYTES) {
+        await response.body?.cancel();
+        throw feedError('feed too large', 502);
+    }
+    if (!response.body) return '';
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        total += value.byteLength;
+        if (total > MAX_FEED_BYTES) {
+            await reader.cancel();
+            throw feedError('feed too large', 502);
+        }
+        chunks.push(value);
+    }
+
+    const bytes = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return new TextDecoder().decode(bytes);
+};
+
+export async function GET(request: NextRequest) {
+    const raw = request.nextUrl.searchParams.get('url');
+    if (!raw) {
+        return NextResponse.json({ error: 'url is required' }, { status: 400 });
+    }
+
+    try {
+        const response = await fetchFeed(parseFeedUrl(raw), AbortSignal.timeout(FETCH_TIMEOUT_MS));
+        if (!response.ok) {
+            await response.body?.cancel();
+            return NextResponse.json({ error: `upstream responded ${response.status}` }, { status: 502 });
+        }
+
+        const body = await readFeedBody(response);
+        if (!body.includes('BEGIN:VCALENDAR')) {
+            return NextResponse.json({ error: 'not an iCalendar feed' }, { status: 502 });
+        }
+
+        return new NextResponse(body, {
+            headers: { 'Content-Type': 'text/calendar; charset=utf-8', 'Cache-Control': 'no-store' },
+        });
+    } catch (err) {
+        const message = err instanceof Error ? err.message : 'fetch failed';
+        const status = err instanceof Error && 'status' in err ? (err.status as number) : 502;
+        return NextResponse.json({ error: message }, { status });
+    }
+}
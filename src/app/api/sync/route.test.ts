@@ -0,0 +1,84 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { CalendarEvent } from '@/lib/calendar';
+import type { SyncRequest, SyncResponse } from '@/lib/sync';
+import { GET, POST } from './route';
+
+const T1 = '2026-10-19T01:00:00.000Z';
+const T2 = '2026-10-19T02:00:00.000Z';
+const T3 = '2026-10-19T03:00:00.000Z';
+
+const event = (id: string, title: string, updatedAt: string): CalendarEvent => ({
+    id,
+    title,
+    date: '2026-10-20T01:00:00.000Z',
+    updatedAt,
+});
+
+const push = async (body: SyncRequest): Promise<SyncResponse> => {
+    const response = await POST(
+        new NextRequest('http://app/api/sync', { method: 'POST', body: JSON.stringify(body) })
+    );
+    expect(response.status).toBe(200);
+    return response.json();
+};
+
+const pull = async (since: number): Promise<SyncResponse> =>
+    (await GET(new NextRequest(`http://app/api/sync?since=${since}`))).json();
+
+describe('/api/sync', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'sync-'));
+        process.env.SYNC_STORE_PATH = path.join(dir, 'sync.json');
+    });
+    afterEach(async () => {
+        delete process.env.SYNC_STORE_PATH;
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('carries two clients’ changes to each other by cursor', async () => {
+        // Client A adds an event
+        const a1 = await push({ since: 0, events: [event('a', '会議', T1)], tombstones: [] });
+        expect(a1.cursor).toBe(1);
+        expect(a1.events.map((e) => e.id)).toEqual(['a']);
+
+        // Client B starts from scratch, adds its own and receives A's
+        const b1 = await push({ since: 0, events: [event('b', 'ランチ', T1)], tombstones: [] });
+        expect(b1.cursor).toBe(2);
+        expect(b1.events.map((e) => e.id).sort()).toEqual(['a', 'b']);
+
+        // A only hears about what changed after its cursor
+        const a2 = await push({ since: a1.cursor, events: [], tombstones: [] });
+        expect(a2).toEqual({ cursor: 2, events: [event('b', 'ランチ', T1)], tombstones: [] });
+
+        // A stale edit loses and doesn't move the cursor
+        const stale = await push({ since: 2, events: [event('b', '古い編集', '2026-10-19T00:00:00.000Z')], tombstones: [] });
+        expect(stale).toEqual({ cursor: 2, events: [], tombstones: [] });
+
+        // B deletes A's event; A's later edit of it was made before the deletion
+        const b2 = await push({ since: b1.cursor, events: [], tombstones: [{ id: 'a', deletedAt: T3 }] });
+        expect(b2).toEqual({ cursor: 3, events: [], tombstones: [{ id: 'a', deletedAt: T3 }] });
+        const a3 = await push({ since: 2, events: [event('a', '会議（変更）', T2)], tombstones: [] });
+        expect(a3).toEqual({ cursor: 3, events: [], tombstones: [{ id: 'a', deletedAt: T3 }] });
+
+        // The revision of each id is the cursor of its last accepted change
+        expect(await pull(0)).toEqual({ cursor: 3, events: [event('b', 'ランチ', T1)], tombstones: [{ id: 'a', deletedAt: T3 }] });
+        expect((await pull(2)).events).toEqual([]);
+    });
+
+    it('rejects malformed changes without touching the store', async () => {
+        const response = await POST(
+            new NextRequest('http://app/api/sync', {
+                method: 'POST',
+                body: JSON.stringify({ since: 0, events: [{ id: 1 }], tombstones: [] }),
+            })
+        );
+        expect(response.status).toBe(400);
+        expect(await pull(0)).toEqual({ cursor: 0, events: [], tombstones: [] });
+    });
+});
@@ -0,0 +1,120 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { NextRequest, NextResponse } from 'next/server';
+import { parseEvents, parseTombstones } from '@/lib/storage';
+import { mergeStates, type SyncRequest, type SyncResponse, type SyncState } from '@/lib/sync';
+
+// Self-hosted sync for one calendar, kept in a JSON file:
+//   SYNC_STORE_PATH  e.g. .data/sync.json; the route is off until it is set
+//   SYNC_TOKEN       when set, clients must send it as a bearer token
+
+interface SyncStore {
+    cursor: number; // bumped on every accepted change
+    revisions: Record<string, number>; // id → cursor of its last change
+    state: SyncState;
+}
+
+const EMPTY_STORE: SyncStore = { cursor: 0, revisions: {}, state: { events: [], tombstones: [] } };
+
+const storePath = () => path.resolve(process.env.SYNC_STORE_PATH!);
+
+const readStore = async (): Promise<SyncStore> => {
+    try {
+        return JSON.parse(await fs.readFile(storePath(), 'utf8'));
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return EMPTY_STORE;
+        throw err;
+    }
+};
+
+// Written beside the target and renamed, so a crash never leaves half a file
+const writeStore = async (store: SyncStore) => {
+    const file = storePath();
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(store));
+    await fs.rename(`${file}.tmp`, file);
+};
+
+// Requests touch the file one at a time
+let storeQueue: Promise<unknown> = Promise.resolve();
+
+const withStore = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = storeQueue.then(task);
+    storeQueue = run.catch(() => undefined);
+    return run;
+};
+
+const changesSince = (store: SyncStore, since: number): SyncResponse => {
+    const changed = (id: string) => (store.revisions[id] ?? 0) > since;
+    return {
+        cursor: store.cursor,
+        events: store.state.events.filter((e) => changed(e.id)),
+        tombstones: store.state.tombstones.filter((t) => changed(t.id)),
+    };
+};
+
+const checkRequest = (request: NextRequest) => {
+    if (!process.env.SYNC_STORE_PATH) {
+        return NextResponse.json({ error: 'sync is not configured' }, { status: 503 });
+    }
+    const token = process.env.SYNC_TOKEN;
+    if (token && request.headers.get('authorization') !== `Bearer ${token}`) {
+        return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+    }
+    return null;
+};
+
+const parseSince = (value: unknown) => (Number.isInteger(value) && (value as number) >= 0 ? (value as number) : null);
+
+// GET /api/sync?since=<cursor>: changes only, handy for checking from curl
+export async function GET(request: NextRequest) {
+    const rejected = checkRequest(request);
+    if (rejected) return rejected;
+    const since = parseSince(Number(request.nextUrl.searchParams.get('since') ?? 0));
+    if (since === null) return NextResponse.json({ error: 'invalid since' }, { status: 400 });
+    try {
+        const store = await withStore(readStore);
+        return NextResponse.json(changesSince(store, since));
+    } catch (err) {
+        return NextResponse.json({ error: err instanceof Error ? err.message : 'read failed' }, { status: 500 });
+    }
+}
+
+// POST /api/sync: merge the client's changes, answer with everything newer than its cursor
+export async function POST(request: NextRequest) {
+    const rejected = checkRequest(request);
+    if (rejected) return rejected;
+
+    let body: SyncRequest;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'invalid json' }, { status: 400 });
+    }
+    const since = parseSince(body?.since);
+    if (since === null || !Array.isArray(body.events) || !Array.isArray(body.tombstones)) {
+        return NextResponse.json({ error: 'since, events and tombstones are required' }, { status: 400 });
+    }
+    const { events, rejected: malformed } = parseEvents(body.events);
+    const tombstones = parseTombstones(body.tombstones);
+    if (malformed.length > 0 || tombstones.length !== body.tombstones.length) {
+        return NextResponse.json({ error: 'malformed events or tombstones' }, { status: 400 });
+    }
+
+    try {
+        const store = await withStore(async () => {
+            const current = await readStore();
+            const { state, updated } = mergeStates(current.state, { events, tombstones });
+            if (updated.length === 0) return current;
+            const cursor = current.cursor + 1;
+            const revisions = { ...current.revisions };
+            for (const id of updated) revisions[id] = cursor;
+            const next = { cursor, revisions, state };
+            await writeStore(next);
+            return next;
+        });
+        return NextResponse.json(changesSince(store, since));
+    } catch (err) {
+        return NextResponse.json({ error: err instanceof Error ? err.message : 'write failed' }, { status: 500 });
+    }
+}
@@ -1,19 +1,128 @@
 'use client';
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Send, Calendar as CalendarIcon, ChevronLeft, ChevronRight, X, Plus, Trash2, Bell, BellOff, Download } from 'lucide-react';
-import { format, isSameDay, isSameMonth, addMonths, subMonths } from 'date-fns';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Send, Cloud, CloudOff, Globe, Calendar as CalendarIcon, ChevronLeft, ChevronRight, X, Plus, Trash2, Bell, BellOff, Download, Repeat, Copy, Undo2, Settings, Upload, Lock, RefreshCw, Search, ListTodo, Share2 } from 'lucide-react';
+import { format, isSameDay, isSameMonth, addMonths, addWeeks, addDays, addMinutes, parseISO, endOfDay } from 'date-fns';
 import { ja } from 'date-fns/locale';
 import {
   getMonthDays,
   CalendarEvent,
   EVENT_COLORS,
   filterEventsByDate,
-  formatEventTime,
-  loadEvents,
-  saveEvents,
-  parseAIResponse,
+  formatEventRange,
+  formatInEventZone,
+  getEventColor,
+  sortDayEvents,
+  AssistantAction,
+  isEventDone,
+  markEventDone,
+  rescheduleOccurrence,
+  updateOccurrence,
+  findConflicts,
+  formatDuration,
 } from '@/lib/calendar';
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  SeriesDeleteMode,
+  RECURRENCE_LABELS,
+  describeRecurrence,
+  removeOccurrences,
+} from '@/lib/recurrence';
+import { REMINDER_OPTIONS, formatReminderLabel } from '@/lib/reminders';
+import { AppSettings, DEFAULT_SETTINGS, DigestSettings, SnapshotSettings, SyncSettings, WorkingHours, loadSettings, saveSettings } from '@/lib/settings';
+import { DigestNotification, buildDigests } from '@/lib/digest';
+import {
+  CATEGORY_COLORS,
+  Category,
+  findCategory,
+  formatTags,
+  isEventVisible,
+  parseTags,
+} from '@/lib/categories';
+import { getHoliday } from '@/lib/holidays';
+import { getRokuyo } from '@/lib/rokuyo';
+import { deviceTimeZone, describeTimeZone, fromZonedTime, listTimeZones, toZonedTime } from '@/lib/timezone';
+import { QuarantineEntry, loadEvents, loadQuarantine, loadSnapshots, saveEvents } from '@/lib/storage';
+import {
+  BackupBundle,
+  ParsedBackup,
+  RestoreMode,
+  backupFileName,
+  createBackup,
+  parseBackup,
+  previewRestore,
+  readBackupFile,
+  restoreEvents,
+  restoreSettings,
+  restoreTasks,
+  takeDailySnapshot,
+} from '@/lib/backup';
+import {
+  PRIORITY_LABELS,
+  TASK_REMINDER_TIME,
+  Task,
+  TaskPriority,
+  TaskReminder,
+  buildTaskReminders,
+  createTask,
+  describeDue,
+  describeProgress,
+  isOverdue,
+  loadTasks,
+  openTasksDueOn,
+  saveTasks,
+  sortTasks,
+  tasksForDay,
+  toggleSubtask,
+  toggleTask,
+} from '@/lib/tasks';
+import {
+  SyncState,
+  SyncStatus,
+  TabChannel,
+  applyLocalChanges,
+  loadSyncQueue,
+  mergeStates,
+  openTabChannel,
+  pushPull,
+  queueChanges,
+  saveSyncQueue,
+  versionOf,
+} from '@/lib/sync';
+import { exportICS, parseICS, mergeImportedEvents } from '@/lib/ics';
+import { SharedEvent, createInviteUrl, findDuplicateEvent, parseInvite } from '@/lib/invite';
+import { encodeQR } from '@/lib/qrcode';
+import {
+  FeedSubscription,
+  FEED_COLORS,
+  FEED_REFRESH_MS,
+  loadFeeds,
+  saveFeeds,
+  loadFeedCache,
+  saveFeedCache,
+  refreshFeeds,
+  getFeedEvents,
+} from '@/lib/feeds';
+import {
+  CalendarView,
+  VIEW_LABELS,
+  getWeekDays,
+  isTimelineEvent,
+  layoutTimelineEvents,
+  loadViewState,
+  saveViewState,
+} from '@/lib/timeline';
+import { getAssistantProvider } from '@/lib/assistant';
+import {
+  ChatMessage,
+  ConversationContext,
+  splitEventRefs,
+  loadChatHistory,
+  saveChatHistory,
+  clearChatHistory,
+} from '@/lib/chat';
+import { SearchTimeFilter, SEARCH_TIME_LABELS, searchEvents } from '@/lib/search';
 
 // ---- Service Worker & Notification ----
 const registerServiceWorker = async () => {
@@ -21,6 +130,7 @@ const registerServiceWorker = async () => {
   try {
     const registration = await navigator.serviceWorker.register('/sw.js');
     console.log('[App] Service Worker registered');
+    await registerPeriodicSync(registration);
     return registration;
   } catch (err) {
     console.error('[App] SW registration failed:', err);
@@ -28,6 +138,19 @@ const registerServiceWorker = async () => {
   }
 };
 
+// Periodic Background Sync wakes the worker to re-arm reminders even with no tab open
+const registerPeriodicSync = async (registration: ServiceWorkerRegistration) => {
+  const { periodicSync } = registration as ServiceWorkerRegistration & {
+    periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+  };
+  if (!periodicSync) return;
+  try {
+    await periodicSync.register('check-reminders', { minInterval: 15 * 60 * 1000 });
+  } catch {
+    // Not granted (e.g. the app is not installed); the worker re-arms on startup instead
+  }
+};
+
 const requestNotificationPermission = async () => {
   if (typeof window === 'undefined' || !('Notification' in window)) return false;
   if (Notification.permission === 'granted') return true;
@@ -36,69 +159,234 @@ const requestNotificationPermission = async () => {
   return result === 'granted';
 };
 
-const sendEventsToSW = (events: CalendarEvent[]) => {
+const sendEventsToSW = (
+  events: CalendarEvent[],
+  defaultReminders: number[],
+  digests: DigestNotification[] = [],
+  taskReminders: TaskReminder[] = []
+) => {
   if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
   navigator.serviceWorker.ready.then((registration) => {
     registration.active?.postMessage({
       type: 'SCHEDULE_NOTIFICATIONS',
       events,
+      defaultReminders,
+      digests,
+      taskReminders,
     });
   });
 };
 
+// ---- Assistant ----
+const assistant = getAssistantProvider();
+
+const createGreeting = (events: CalendarEvent[]): ChatMessage => {
+  const hour = new Date().getHours();
+  let greeting = 'こんにちは';
+  if (hour < 10) greeting = 'おはようございます';
+  else if (hour >= 18) greeting = 'こんばんは';
+
+  const todayEvents = filterEventsByDate(events, new Date());
+  let greetingText = `${greeting}！😊 あなたの予定管理をお手伝いします。\n\n`;
+  if (todayEvents.length > 0) {
+    greetingText += `📅 今日は${todayEvents.length}件の予定があります。「今日の予定」と聞いてみてください！\n\n`;
+  }
+  greetingText += '「ヘルプ」で使い方を確認できます！';
+  return { id: Date.now().toString(), text: greetingText, sender: 'ai' };
+};
+
+// ---- Sync ----
+const SYNC_DEBOUNCE_MS = 2000;
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+const describeSyncStatus = (status: SyncStatus) => {
+  const last = status.lastSynced ? `（最終同期: ${format(new Date(status.lastSynced), 'M/d HH:mm')}）` : '';
+  switch (status.state) {
+    case 'syncing':
+      return '同期中…';
+    case 'offline':
+      return `オフライン：変更は接続が戻ったら送ります${last}`;
+    case 'error':
+      return `同期に失敗しました: ${status.error ?? ''}${last}`;
+    default:
+      return `同期済み${last}。クリックで今すぐ同期`;
+  }
+};
+
+// Shown when saved data had to be set aside on load
+const createStorageWarning = (rejected: number): ChatMessage => ({
+  id: `${Date.now()}-storage`,
+  text:
+    (rejected > 0
+      ? `⚠️ 保存されていた予定のうち${rejected}件を読み込めませんでした。`
+      : '⚠️ 保存されていた予定を読み込めませんでした。') +
+    '\n元のデータは消さずに退避してあります（⚙️ 設定 →「退避したデータ」からダウンロードできます）。',
+  sender: 'ai',
+});
+
+// ---- File Download ----
+const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
 // ---- PWA Install Prompt ----
 let deferredPrompt: Event | null = null;
 
-// ---- Add Event Modal ----
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+// ---- Reminder Picker ----
+function ReminderPicker({ value, onChange }: { value: number[]; onChange: (value: number[]) => void }) {
+  const toggle = (minutes: number) => {
+    onChange(value.includes(minutes) ? value.filter((m) => m !== minutes) : [...value, minutes]);
+  };
+
+  return (
+    <div className="reminder-options">
+      {REMINDER_OPTIONS.map((minutes) => (
+        <button
+          key={minutes}
+          type="button"
+          className={`reminder-option ${value.includes(minutes) ? 'selected' : ''}`}
+          onClick={() => toggle(minutes)}
+        >
+          {formatReminderLabel(minutes)}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// ---- Add / Edit Event Modal ----
 function AddEventModal({
-  isOpen,
   onClose,
   onAdd,
+  onUpdate,
   defaultDate,
+  defaultEnd,
+  event,
+  categories,
 }: {
-  isOpen: boolean;
   onClose: () => void;
   onAdd: (event: CalendarEvent) => void;
+  onUpdate: (event: CalendarEvent) => void;
   defaultDate: Date;
+  defaultEnd?: Date; // set when a time range was dragged out on the timeline
+  event?: CalendarEvent | null;
+  categories: Category[];
 }) {
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [date, setDate] = useState(format(defaultDate, 'yyyy-MM-dd'));
-  const [time, setTime] = useState('12:00');
-  const [color, setColor] = useState('blue');
-
-  useEffect(() => {
-    setDate(format(defaultDate, 'yyyy-MM-dd'));
-  }, [defaultDate]);
+  const isEditing = !!event;
+  // Times are edited as the clock reads in the event's own zone
+  const inEventZone = (d: Date) => (event?.timeZone && !event.allDay ? toZonedTime(d, event.timeZone) : d);
+  const initialDate = event ? inEventZone(new Date(event.date)) : defaultDate;
+  const rule = event?.recurrence;
 
-  if (!isOpen) return null;
+  const [title, setTitle] = useState(event?.title ?? '');
+  const [description, setDescription] = useState(event?.description ?? '');
+  const [date, setDate] = useState(format(initialDate, 'yyyy-MM-dd'));
+  const initialEnd = event ? (event.end ? inEventZone(new Date(event.end)) : undefined) : defaultEnd;
+  const [time, setTime] = useState(
+    (event && !event.allDay) || defaultEnd ? format(initialDate, 'HH:mm') : '12:00'
+  );
+  const [allDay, setAllDay] = useState(event?.allDay ?? false);
+  // New events are pinned to the zone they're made in, so a series keeps its time when the device travels.
+  // '' (floating, follows the device) is kept for existing events saved that way, or picked explicitly
+  const [timeZone, setTimeZone] = useState(event ? (event.timeZone ?? '') : deviceTimeZone());
+  const [endDate, setEndDate] = useState(format(initialEnd ?? initialDate, 'yyyy-MM-dd'));
+  const [endTime, setEndTime] = useState(initialEnd && !event?.allDay ? format(initialEnd, 'HH:mm') : '');
+  // '' follows the category's color
+  const [color, setColor] = useState(event?.color ?? '');
+  const [categoryId, setCategoryId] = useState(event?.categoryId ?? '');
+  const [tags, setTags] = useState(formatTags(event?.tags));
+  const [frequency, setFrequency] = useState<RecurrenceFrequency | ''>(rule?.frequency ?? '');
+  const [repeatInterval, setRepeatInterval] = useState(rule?.interval ?? 1);
+  const [weekdays, setWeekdays] = useState<number[]>(rule?.weekdays ?? []);
+  const [endType, setEndType] = useState<'never' | 'until' | 'count'>(
+    rule?.until ? 'until' : rule?.count ? 'count' : 'never'
+  );
+  const [until, setUntil] = useState(rule?.until ?? '');
+  const [count, setCount] = useState(rule?.count ?? 10);
+  const [reminderMode, setReminderMode] = useState<'default' | 'custom' | 'none'>(
+    !event?.reminders ? 'default' : event.reminders.length === 0 ? 'none' : 'custom'
+  );
+  const [reminders, setReminders] = useState<number[]>(event?.reminders ?? []);
 
-  const handleSubmit = () => {
-    if (!title.trim()) return;
+  const buildEvent = (id: string): CalendarEvent => {
     const [y, m, d] = date.split('-').map(Number);
     const [h, min] = time.split(':').map(Number);
-    const eventDate = new Date(y, m - 1, d, h, min);
+    const fromWall = (wall: Date) => (timeZone ? fromZonedTime(wall, timeZone) : wall);
+    const eventDate = allDay ? new Date(y, m - 1, d) : fromWall(new Date(y, m - 1, d, h, min));
+
+    // All-day events store their last day; timed ones their end time
+    let end: Date | undefined;
+    const [ey, em, ed] = (endDate || date).split('-').map(Number);
+    if (allDay) {
+      const lastDay = new Date(ey, em - 1, ed);
+      if (lastDay > eventDate) end = lastDay;
+    } else if (endTime) {
+      const [eh, emin] = endTime.split(':').map(Number);
+      const candidate = fromWall(new Date(ey, em - 1, ed, eh, emin));
+      if (candidate > eventDate) end = candidate;
+    }
+
+    let recurrence: RecurrenceRule | undefined;
+    if (frequency) {
+      recurrence = { frequency, interval: Math.max(1, repeatInterval) };
+      if (frequency === 'weekly' && weekdays.length > 0) recurrence.weekdays = weekdays;
+      if (endType === 'until' && until) recurrence.until = until;
+      if (endType === 'count') recurrence.count = Math.max(1, count);
+      // Skipped occurrences only stay meaningful while the rule is unchanged
+      if (rule?.exdates && rule.frequency === frequency) recurrence.exdates = rule.exdates;
+    }
 
-    onAdd({
-      id: crypto.randomUUID(),
+    return {
+      ...event,
+      id,
       title: title.trim(),
       description: description.trim() || undefined,
       date: eventDate.toISOString(),
-      color,
-    });
+      end: end?.toISOString(),
+      allDay: allDay || undefined,
+      timeZone: allDay ? undefined : timeZone || undefined,
+      color: color || undefined,
+      categoryId: categoryId || undefined,
+      tags: parseTags(tags).length > 0 ? parseTags(tags) : undefined,
+      recurrence,
+      reminders: reminderMode === 'default' ? undefined : reminderMode === 'none' ? [] : reminders,
+    };
+  };
 
-    setTitle('');
-    setDescription('');
-    setTime('12:00');
-    setColor('blue');
+  const handleSubmit = () => {
+    if (!title.trim()) return;
+    if (event) {
+      onUpdate(buildEvent(event.id));
+    } else {
+      onAdd(buildEvent(crypto.randomUUID()));
+    }
+    onClose();
+  };
+
+  const handleDuplicate = () => {
+    if (!title.trim()) return;
+    onAdd(buildEvent(crypto.randomUUID()));
     onClose();
   };
 
+  const autoColor = findCategory(categories, categoryId)?.color ?? EVENT_COLORS[0].value;
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]));
+  };
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="modal" onClick={(e) => e.stopPropagation()}>
         <div className="modal-header">
-          <h3>📝 予定を追加</h3>
+          <h3>{isEditing ? '✏️ 予定を編集' : '📝 予定を追加'}</h3>
           <button className="btn-ghost" onClick={onClose}>
             <X size={18} />
           </button>
@@ -122,37 +410,1543 @@ function AddEventModal({
               placeholder="例：渋谷のカフェで"
             />
           </div>
-          <div className="flex gap-3">
-            <div className="form-group flex-1">
-              <label>日付</label>
-              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
-            </div>
-            <div className="form-group flex-1">
-              <label>時間</label>
-              <input type="time" value={time} onChange={(e) => setTime(e.target.value)} />
-            </div>
+          <div className="flex gap-3">
+            <div className="form-group flex-1">
+              <label>日付</label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => {
+                  setDate(e.target.value);
+                  if (endDate < e.target.value) setEndDate(e.target.value);
+                }}
+              />
+            </div>
+            <div className="form-group flex-1">
+              <label>終了日</label>
+              <input type="date" value={endDate} min={date} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+          <label className="checkbox-label">
+            <input type="checkbox" checked={allDay} onChange={(e) => setAllDay(e.target.checked)} />
+            終日
+          </label>
+          {!allDay && (
+            <div className="flex gap-3">
+              <div className="form-group flex-1">
+                <label>開始時間</label>
+                <input type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+              </div>
+              <div className="form-group flex-1">
+                <label>終了時間</label>
+                <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+              </div>
+            </div>
+          )}
+          {!allDay && (
+            <div className="form-group">
+              <label>タイムゾーン</label>
+              <select value={timeZone} onChange={(e) => setTimeZone(e.target.value)}>
+                <option value="">この端末に合わせる（{describeTimeZone(deviceTimeZone())}）</option>
+                {listTimeZones().map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone === deviceTimeZone() ? `${zone}（この端末）` : zone}
+                  </option>
+                ))}
+              </select>
+              {timeZone && timeZone !== deviceTimeZone() && (
+                <p className="text-xs text-muted mt-1">
+                  この端末の時刻では {formatEventRange(buildEvent(''))} です
+                </p>
+              )}
+            </div>
+          )}
+          <div className="flex gap-3">
+            <div className="form-group flex-1">
+              <label>カテゴリ</label>
+              <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)}>
+                <option value="">なし</option>
+                {categories.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.icon} {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group flex-1">
+              <label>タグ</label>
+              <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="例：#買い物 #家族" />
+            </div>
+          </div>
+          <div className="form-group">
+            <label>カラー</label>
+            <div className="color-options">
+              <div
+                className={`color-option color-option-auto ${color === '' ? 'selected' : ''}`}
+                style={{ backgroundColor: autoColor, color: autoColor }}
+                onClick={() => setColor('')}
+                title={categoryId ? 'カテゴリの色' : '標準の色'}
+              />
+              {EVENT_COLORS.map((c) => (
+                <div
+                  key={c.name}
+                  className={`color-option ${color === c.name ? 'selected' : ''}`}
+                  style={{ backgroundColor: c.value, color: c.value }}
+                  onClick={() => setColor(c.name)}
+                />
+              ))}
+              <input
+                type="color"
+                className={`color-custom ${color.startsWith('#') ? 'selected' : ''}`}
+                value={color.startsWith('#') ? color : '#6b7280'}
+                onChange={(e) => setColor(e.target.value)}
+                title="好きな色"
+              />
+            </div>
+          </div>
+          <div className="form-group">
+            <label>繰り返し</label>
+            <select value={frequency} onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency | '')}>
+              <option value="">なし</option>
+              {(Object.keys(RECURRENCE_LABELS) as RecurrenceFrequency[]).map((f) => (
+                <option key={f} value={f}>
+                  {RECURRENCE_LABELS[f]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {frequency && (
+            <>
+              {frequency === 'weekly' && (
+                <div className="form-group">
+                  <label>曜日</label>
+                  <div className="weekday-options">
+                    {WEEKDAY_LABELS.map((label, i) => (
+                      <button
+                        key={label}
+                        type="button"
+                        className={`weekday-option ${weekdays.includes(i) ? 'selected' : ''}`}
+                        onClick={() => toggleWeekday(i)}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="flex gap-3">
+                <div className="form-group flex-1">
+                  <label>間隔</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={repeatInterval}
+                    onChange={(e) => setRepeatInterval(Number(e.target.value) || 1)}
+                  />
+                </div>
+                <div className="form-group flex-1">
+                  <label>終了</label>
+                  <select value={endType} onChange={(e) => setEndType(e.target.value as 'never' | 'until' | 'count')}>
+                    <option value="never">なし</option>
+                    <option value="until">日付まで</option>
+                    <option value="count">回数</option>
+                  </select>
+                </div>
+              </div>
+              {endType === 'until' && (
+                <div className="form-group">
+                  <label>終了日</label>
+                  <input type="date" value={until} min={date} onChange={(e) => setUntil(e.target.value)} />
+                </div>
+              )}
+              {endType === 'count' && (
+                <div className="form-group">
+                  <label>回数</label>
+                  <input type="number" min={1} value={count} onChange={(e) => setCount(Number(e.target.value) || 1)} />
+                </div>
+              )}
+            </>
+          )}
+          <div className="form-group">
+            <label>通知</label>
+            <select
+              value={reminderMode}
+              onChange={(e) => setReminderMode(e.target.value as 'default' | 'custom' | 'none')}
+            >
+              <option value="default">デフォルト設定に従う</option>
+              <option value="custom">カスタム</option>
+              <option value="none">通知しない</option>
+            </select>
+            {reminderMode === 'custom' && (
+              <div className="mt-1">
+                <ReminderPicker value={reminders} onChange={setReminders} />
+              </div>
+            )}
+          </div>
+          {isEditing && rule && (
+            <p className="text-xs text-muted">🔁 繰り返しの予定は、すべての回に変更が反映されます。</p>
+          )}
+        </div>
+        <div className="modal-footer">
+          {isEditing && (
+            <button className="btn-duplicate" onClick={handleDuplicate} disabled={!title.trim()}>
+              <Copy size={14} />
+              複製
+            </button>
+          )}
+          <button className="btn-cancel" onClick={onClose}>
+            キャンセル
+          </button>
+          <button className="btn-save" onClick={handleSubmit} disabled={!title.trim()}>
+            {isEditing ? '保存する' : '追加する'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ---- Settings Modal ----
+const SNAPSHOT_KEEP_OPTIONS = [3, 7, 14, 30];
+const DEFAULT_EVENT_LENGTHS = [15, 30, 45, 60, 90, 120];
+const DEFAULT_MORNING_DIGEST = '07:30';
+const DEFAULT_EVENING_DIGEST = '21:00';
+
+function SettingsModal({
+  settings,
+  onClose,
+  onSave,
+  onExportICS,
+  onImportICS,
+  onExportBackup,
+  onOpenBackup,
+  feeds,
+  onAddFeed,
+  onRemoveFeed,
+  onRefreshFeeds,
+}: {
+  settings: AppSettings;
+  onClose: () => void;
+  onSave: (settings: AppSettings) => void;
+  onExportICS: (range?: { from: Date; to: Date }) => void;
+  onImportICS: (file: File) => void;
+  onExportBackup: () => void;
+  onOpenBackup: (source: File | BackupBundle) => void;
+  feeds: FeedSubscription[];
+  onAddFeed: (name: string, url: string) => void;
+  onRemoveFeed: (id: string) => void;
+  onRefreshFeeds: () => void;
+}) {
+  const [defaultReminders, setDefaultReminders] = useState<number[]>(settings.defaultReminders);
+  const [workingHours, setWorkingHours] = useState<WorkingHours>(settings.workingHours);
+  const [defaultEventMinutes, setDefaultEventMinutes] = useState(settings.defaultEventMinutes);
+  const [digest, setDigest] = useState<DigestSettings>(settings.digest);
+  const [sync, setSync] = useState<SyncSettings>(settings.sync);
+  const [snapshots, setSnapshots] = useState<SnapshotSettings>(settings.snapshots);
+  const [homeTimeZone, setHomeTimeZone] = useState(settings.homeTimeZone);
+  const [categories, setCategories] = useState<Category[]>(settings.categories);
+  const [showRokuyo, setShowRokuyo] = useState(settings.showRokuyo);
+  const [quarantined, setQuarantined] = useState<QuarantineEntry[]>([]);
+  const [savedSnapshots, setSavedSnapshots] = useState<BackupBundle[]>([]);
+
+  useEffect(() => {
+    loadQuarantine().then(setQuarantined);
+    loadSnapshots().then((saved) => setSavedSnapshots(saved.reverse()));
+  }, []);
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [feedName, setFeedName] = useState('');
+  const [feedUrl, setFeedUrl] = useState('');
+
+  const handleAddFeed = () => {
+    if (!feedUrl.trim()) return;
+    onAddFeed(feedName.trim() || '購読カレンダー', feedUrl.trim());
+    setFeedName('');
+    setFeedUrl('');
+  };
+
+  const handleExport = () => {
+    if (exportFrom && exportTo) {
+      onExportICS({ from: parseISO(exportFrom), to: endOfDay(parseISO(exportTo)) });
+    } else {
+      onExportICS();
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportICS(file);
+      onClose();
+    }
+    e.target.value = '';
+  };
+
+  const handleBackupFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onOpenBackup(file);
+      onClose();
+    }
+    e.target.value = '';
+  };
+
+  const toggleWorkDay = (day: number) => {
+    setWorkingHours((prev) => ({
+      ...prev,
+      days: prev.days.includes(day) ? prev.days.filter((d) => d !== day) : [...prev.days, day].sort(),
+    }));
+  };
+
+  const updateCategory = (id: string, patch: Partial<Category>) => {
+    setCategories((prev) => prev.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+  };
+
+  const addCategory = () => {
+    setCategories((prev) => [
+      ...prev,
+      { id: crypto.randomUUID(), name: '', color: CATEGORY_COLORS[prev.length % CATEGORY_COLORS.length], icon: '🏷️' },
+    ]);
+  };
+
+  const handleSubmit = () => {
+    // A reversed range would leave no free time at all
+    const hours = workingHours.start < workingHours.end ? workingHours : settings.workingHours;
+    onSave({ ...settings, defaultReminders, workingHours: hours, defaultEventMinutes, digest, sync: { ...sync, token: sync.token.trim() }, snapshots, homeTimeZone, categories: categories.filter((c) => c.name.trim()).map((c) => ({ ...c, name: c.name.trim() })), showRokuyo });
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>⚙️ 設定</h3>
+          <button className="btn-ghost" onClick={onClose}>
+            <X size={18} />
+          </button>
+        </div>
+        <div className="modal-body">
+          <div className="form-group">
+            <label>デフォルトの通知</label>
+            <ReminderPicker value={defaultReminders} onChange={setDefaultReminders} />
+            <p className="text-xs text-muted mt-1">
+              {defaultReminders.length === 0
+                ? '通知なし：個別に設定した予定だけ通知します'
+                : '予定ごとに「カスタム」「通知しない」を選ぶこともできます'}
+            </p>
+          </div>
+          <div className="form-group">
+            <label>毎日のお知らせ</label>
+            <div className="digest-row">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={digest.morning !== null}
+                  onChange={(e) => setDigest((prev) => ({ ...prev, morning: e.target.checked ? DEFAULT_MORNING_DIGEST : null }))}
+                />
+                朝に今日の予定
+              </label>
+              {digest.morning !== null && (
+                <input
+                  type="time"
+                  value={digest.morning}
+                  onChange={(e) => setDigest((prev) => ({ ...prev, morning: e.target.value || prev.morning }))}
+                />
+              )}
+            </div>
+            <div className="digest-row">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={digest.evening !== null}
+                  onChange={(e) => setDigest((prev) => ({ ...prev, evening: e.target.checked ? DEFAULT_EVENING_DIGEST : null }))}
+                />
+                夜に明日の予定
+              </label>
+              {digest.evening !== null && (
+                <input
+                  type="time"
+                  value={digest.evening}
+                  onChange={(e) => setDigest((prev) => ({ ...prev, evening: e.target.value || prev.evening }))}
+                />
+              )}
+            </div>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={digest.skipEmptyDays}
+                onChange={(e) => setDigest((prev) => ({ ...prev, skipEmptyDays: e.target.checked }))}
+              />
+              予定がない日は通知しない
+            </label>
+            <p className="text-xs text-muted">通知をオンにしているときに届きます</p>
+          </div>
+          <div className="form-group">
+            <label>勤務時間（空き時間の提案に使います）</label>
+            <div className="flex gap-2 items-center">
+              <input
+                type="time"
+                value={workingHours.start}
+                onChange={(e) => setWorkingHours((prev) => ({ ...prev, start: e.target.value }))}
+              />
+              <span className="text-xs text-muted">〜</span>
+              <input
+                type="time"
+                value={workingHours.end}
+                onChange={(e) => setWorkingHours((prev) => ({ ...prev, end: e.target.value }))}
+              />
+            </div>
+            <div className="weekday-options mt-1">
+              {WEEKDAY_LABELS.map((label, i) => (
+                <button
+                  key={label}
+                  type="button"
+                  className={`weekday-option ${workingHours.days.includes(i) ? 'selected' : ''}`}
+                  onClick={() => toggleWorkDay(i)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="form-group">
+            <label>終了時刻のない予定の長さ</label>
+            <select value={defaultEventMinutes} onChange={(e) => setDefaultEventMinutes(Number(e.target.value))}>
+              {DEFAULT_EVENT_LENGTHS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {formatDuration(minutes)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label>ホームのタイムゾーン</label>
+            <select value={homeTimeZone} onChange={(e) => setHomeTimeZone(e.target.value)}>
+              <option value="">この端末に合わせる（{describeTimeZone(deviceTimeZone())}）</option>
+              {listTimeZones().map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-muted mt-1">旅行中など端末の時刻と違うときは、予定にホームの時刻も並べて表示します</p>
+          </div>
+          <div className="form-group">
+            <label>カレンダーの表示</label>
+            <label className="checkbox-label">
+              <input type="checkbox" checked={showRokuyo} onChange={(e) => setShowRokuyo(e.target.checked)} />
+              六曜（大安・仏滅など）を表示する
+            </label>
+            <p className="text-xs text-muted">祝日はいつも表示します</p>
+          </div>
+          <div className="form-group">
+            <label>カテゴリ</label>
+            <div className="category-list">
+              {categories.map((c) => (
+                <div key={c.id} className="category-row">
+                  <input
+                    type="text"
+                    className="category-icon-input"
+                    value={c.icon}
+                    onChange={(e) => updateCategory(c.id, { icon: e.target.value })}
+                    aria-label="アイコン"
+                  />
+                  <input
+                    type="text"
+                    value={c.name}
+                    onChange={(e) => updateCategory(c.id, { name: e.target.value })}
+                    placeholder="カテゴリ名"
+                  />
+                  <input
+                    type="color"
+                    className="color-custom"
+                    value={c.color}
+                    onChange={(e) => updateCategory(c.id, { color: e.target.value })}
+                    aria-label="色"
+                  />
+                  <button
+                    type="button"
+                    className="btn-ghost"
+                    onClick={() => setCategories((prev) => prev.filter((x) => x.id !== c.id))}
+                    title="削除"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button type="button" className="btn-secondary mt-1" onClick={addCategory}>
+              <Plus size={14} />
+              カテゴリを追加
+            </button>
+            <p className="text-xs text-muted mt-1">削除したカテゴリの予定は「なし」になります</p>
+          </div>
+          <div className="form-group">
+            <label>カレンダーファイル (.ics)</label>
+            <div className="flex gap-2 items-center">
+              <input type="date" value={exportFrom} onChange={(e) => setExportFrom(e.target.value)} />
+              <span className="text-xs text-muted">〜</span>
+              <input type="date" value={exportTo} min={exportFrom} onChange={(e) => setExportTo(e.target.value)} />
+            </div>
+            <p className="text-xs text-muted mt-1">期間を指定しない場合はすべての予定を書き出します</p>
+            <div className="flex gap-2 mt-1">
+              <button type="button" className="btn-secondary" onClick={handleExport}>
+                <Download size={14} />
+                エクスポート
+              </button>
+              <button type="button" className="btn-secondary" onClick={() => fileInputRef.current?.click()}>
+                <Upload size={14} />
+                インポート
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ics,text/calendar"
+                style={{ display: 'none' }}
+                onChange={handleFileChange}
+              />
+            </div>
+          </div>
+          <div className="form-group">
+            <div className="flex items-center justify-between">
+              <label>購読カレンダー（読み取り専用）</label>
+              {feeds.length > 0 && (
+                <button type="button" className="btn-ghost" onClick={onRefreshFeeds} title="今すぐ更新">
+                  <RefreshCw size={14} />
+                </button>
+              )}
+            </div>
+            {feeds.map((feed) => (
+              <div key={feed.id} className="feed-item">
+                <span className="feed-color" style={{ backgroundColor: feed.color }} />
+                <div className="flex-1 overflow-hidden">
+                  <div className="text-sm font-semibold">{feed.name}</div>
+                  <div className="feed-url">{feed.url}</div>
+                  <div className={`text-xs ${feed.lastError ? 'feed-error' : 'text-muted'}`}>
+                    {feed.lastError
+                      ? `取得に失敗しました（前回のデータを表示中）: ${feed.lastError}`
+                      : feed.lastFetched
+                        ? `最終更新: ${format(new Date(feed.lastFetched), 'M/d HH:mm')}`
+                        : '未取得'}
+                  </div>
+                </div>
+                <button type="button" className="btn-delete" onClick={() => onRemoveFeed(feed.id)}>
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <input
+              type="text"
+              className="mt-1"
+              value={feedName}
+              onChange={(e) => setFeedName(e.target.value)}
+              placeholder="名前（例：会社の休日）"
+            />
+            <div className="flex gap-2 mt-1">
+              <input
+                type="url"
+                value={feedUrl}
+                onChange={(e) => setFeedUrl(e.target.value)}
+                placeholder="https://… または webcal://…"
+              />
+              <button type="button" className="btn-secondary" onClick={handleAddFeed} disabled={!feedUrl.trim()}>
+                <Plus size={14} />
+                購読
+              </button>
+            </div>
+          </div>
+          <div className="form-group">
+            <label>バックアップ (.json)</label>
+            <p className="text-xs text-muted">予定・設定・チャット履歴をまとめて保存します（同期のトークンは含みません）</p>
+            <div className="flex gap-2 mt-1">
+              <button type="button" className="btn-secondary" onClick={onExportBackup}>
+                <Download size={14} />
+                バックアップ
+              </button>
+              <button type="button" className="btn-secondary" onClick={() => backupInputRef.current?.click()}>
+                <Upload size={14} />
+                復元…
+              </button>
+              <input
+                ref={backupInputRef}
+                type="file"
+                accept=".json,application/json"
+                style={{ display: 'none' }}
+                onChange={handleBackupFileChange}
+              />
+            </div>
+            <div className="digest-row mt-1">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={snapshots.daily}
+                  onChange={(e) => setSnapshots((prev) => ({ ...prev, daily: e.target.checked }))}
+                />
+                毎日自動でこのブラウザに保存
+              </label>
+              {snapshots.daily && (
+                <select className="snapshot-keep" value={snapshots.keep} onChange={(e) => setSnapshots((prev) => ({ ...prev, keep: Number(e.target.value) }))}>
+                  {SNAPSHOT_KEEP_OPTIONS.map((keep) => (
+                    <option key={keep} value={keep}>
+                      最新{keep}日分
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            {savedSnapshots.length > 0 && (
+              <div className="snapshot-list">
+                {savedSnapshots.map((snapshot) => (
+                  <div key={snapshot.exportedAt} className="snapshot-item">
+                    <span className="text-sm">{format(new Date(snapshot.exportedAt), 'M月d日(E) HH:mm', { locale: ja })}</span>
+                    <span className="text-xs text-muted flex-1">予定{snapshot.events.length}件</span>
+                    <button
+                      type="button"
+                      className="btn-ghost text-xs"
+                      onClick={() => {
+                        onOpenBackup(snapshot);
+                        onClose();
+                      }}
+                    >
+                      復元…
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="form-group">
+            <label>同期</label>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={sync.enabled}
+                onChange={(e) => setSync((prev) => ({ ...prev, enabled: e.target.checked }))}
+              />
+              サーバーと同期する（他の端末と予定を共有）
+            </label>
+            {sync.enabled && (
+              <input
+                type="password"
+                className="mt-1"
+                value={sync.token}
+                onChange={(e) => setSync((prev) => ({ ...prev, token: e.target.value }))}
+                placeholder="アクセストークン（サーバーで SYNC_TOKEN を設定した場合）"
+                autoComplete="off"
+              />
+            )}
+            <p className="text-xs text-muted mt-1">同じブラウザの別タブとは常に同期します</p>
+          </div>
+          {quarantined.length > 0 && (
+            <div className="form-group">
+              <label>退避したデータ</label>
+              <p className="text-xs text-muted">
+                読み込めなかった保存データが{quarantined.length}件あります（最新: {format(new Date(quarantined[quarantined.length - 1].at), 'M/d HH:mm')}）
+              </p>
+              <button
+                type="button"
+                className="btn-secondary mt-1"
+                onClick={() =>
+                  downloadFile(JSON.stringify(quarantined, null, 2), 'ai-secretary-quarantine.json', 'application/json')
+                }
+              >
+                <Download size={14} />
+                ダウンロード
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-cancel" onClick={onClose}>
+            キャンセル
+          </button>
+          <button className="btn-save" onClick={handleSubmit}>
+            保存する
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ---- Recurring Delete Dialog ----
+function RecurringDeleteDialog({
+  event,
+  onClose,
+  onDelete,
+}: {
+  event: CalendarEvent | null;
+  onClose: () => void;
+  onDelete: (event: CalendarEvent, mode: SeriesDeleteMode) => void;
+}) {
+  if (!event) return null;
+
+  const handleDelete = (mode: SeriesDeleteMode) => {
+    onDelete(event, mode);
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>🔁 繰り返し予定の削除</h3>
+          <button className="btn-ghost" onClick={onClose}>
+            <X size={18} />
+          </button>
+        </div>
+        <div className="modal-body">
+          <p className="text-sm">
+            「{event.title}」は繰り返しの予定です。どの予定を削除しますか？
+          </p>
+          <div className="delete-options">
+            <button className="btn-delete-option" onClick={() => handleDelete('this')}>
+              この予定のみ
+            </button>
+            <button className="btn-delete-option" onClick={() => handleDelete('following')}>
+              これ以降のすべての予定
+            </button>
+            <button className="btn-delete-option" onClick={() => handleDelete('all')}>
+              すべての繰り返し予定
+            </button>
+          </div>
+        </div>
+        <div className="modal-footer">
+          <button className="btn-cancel" onClick={onClose}>
+            キャンセル
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ---- Restore Dialog ----
+const RESTORE_PREVIEW_LIMIT = 5;
+
+function RestorePreviewList({ label, events }: { label: string; events: CalendarEvent[] }) {
+  if (events.length === 0) return null;
+  return (
+    <div className="restore-list">
+      <div className="text-sm font-semibold">
+        {label} {events.length}件
+      </div>
+      {events.slice(0, RESTORE_PREVIEW_LIMIT).map((event) => (
+        <div key={event.id} className="text-xs text-muted">
+          {format(new Date(event.date), 'yyyy/M/d', { locale: ja })} {event.title}
+        </div>
+      ))}
+      {events.length > RESTORE_PREVIEW_LIMIT && (
+        <div className="text-xs text-muted">ほか{events.length - RESTORE_PREVIEW_LIMIT}件</div>
+      )}
+    </div>
+  );
+}
+
+function RestoreDialog({
+  backup,
+  events,
+  onClose,
+  onRestore,
+}: {
+  backup: ParsedBackup | null;
+  events: CalendarEvent[];
+  onClose: () => void;
+  onRestore: (backup: ParsedBackup, mode: RestoreMode) => void;
+}) {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  if (!backup) return null;
+
+  const preview = previewRestore(events, backup, mode);
+  const nothingToDo =
+    mode === 'merge' && preview.added.length === 0 && preview.updated.length === 0;
+
+  const handleRestore = () => {
+    onRestore(backup, mode);
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>📦 バックアップから復元</h3>
+          <button className="btn-ghost" onClick={onClose}>
+            <X size={18} />
+          </button>
+        </div>
+        <div className="modal-body">
+          <p className="text-sm">
+            {backup.exportedAt
+              ? `${format(new Date(backup.exportedAt), 'yyyy年M月d日 HH:mm', { locale: ja })}のバックアップ`
+              : '作成日時不明のバックアップ'}
+            （予定{backup.events.length}件{backup.tasks ? `・タスク${backup.tasks.length}件` : ''}）
+          </p>
+          <div className="form-group restore-modes">
+            <label className="checkbox-label">
+              <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+              統合：同じ予定はバックアップの内容にし、今の予定は残す
+            </label>
+            <label className="checkbox-label">
+              <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+              置き換え：予定・タスク・設定・チャット履歴をバックアップの内容にする
+            </label>
+          </div>
+          <RestorePreviewList label="追加" events={preview.added} />
+          <RestorePreviewList label="更新" events={preview.updated} />
+          <RestorePreviewList label="削除" events={preview.removed} />
+          <p className="text-xs text-muted">
+            {nothingToDo ? '予定の変更はありません' : `変更なし ${preview.unchanged}件`}
+          </p>
+          {backup.repairs.length > 0 && (
+            <div className="restore-warnings">
+              {backup.repairs.map((repair) => (
+                <div key={repair} className="text-xs">
+                  ⚠️ {repair}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-cancel" onClick={onClose}>
+            キャンセル
+          </button>
+          <button className="btn-save" onClick={handleRestore} disabled={nothingToDo}>
+            復元する
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ---- Share Dialog ----
+const QR_QUIET_ZONE = 4; // modules of white around the code, as scanners expect
+
+function QRCodeImage({ modules }: { modules: boolean[][] }) {
+  const size = modules.length + QR_QUIET_ZONE * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QR_QUIET_ZONE},${y + QR_QUIET_ZONE}h1v1h-1z` : '')))
+    .join('');
+  return (
+    <svg className="share-qr" viewBox={`0 0 ${size} ${size}`} shapeRendering="crispEdges" role="img" aria-label="QRコード">
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
+
+const describeEventWhen = (event: Pick<CalendarEvent, 'date' | 'end' | 'allDay'>) =>
+  `${format(new Date(event.date), 'M月d日(E)', { locale: ja })} ${formatEventRange(event)}`;
+
+// Names the .ics after the event, minus what file systems refuse
+const icsFileName = (event: CalendarEvent) => `${event.title.replace(/[\\/:*?"<>|]/g, '_').slice(0, 50) || 'event'}.ics`;
+
+function ShareDialog({ event, onClose }: { event: CalendarEvent; onClose: () => void }) {
+  const [copied, setCopied] = useState(false);
+  const invite = useMemo<{ url: string; modules: boolean[][] } | { error: string }>(() => {
+    try {
+      const url = createInviteUrl(event, `${window.location.origin}${window.location.pathname}`);
+      return { url, modules: encodeQR(url) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [event]);
+
+  const handleCopy = async () => {
+    if (!('url' in invite)) return;
+    try {
+      await navigator.clipboard.writeText(invite.url);
+      setCopied(true);
+    } catch {
+      // ignore; the link can still be selected by hand
+    }
+  };
+
+  const handleShare = async () => {
+    if (!('url' in invite)) return;
+    try {
+      await navigator.share({ title: event.title, text: `${describeEventWhen(event)} ${event.title}`, url: invite.url });
+    } catch {
+      // ignore; cancelled
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>🔗 予定を共有</h3>
+          <button className="btn-ghost" onClick={onClose}>
+            <X size={18} />
+          </button>
+        </div>
+        <div className="modal-body">
+          <p className="text-sm">
+            {event.title}（{describeEventWhen(event)}
+            {event.recurrence ? `・${describeRecurrence(event.recurrence)}` : ''}）
+          </p>
+          {'url' in invite ? (
+            <>
+              <QRCodeImage modules={invite.modules} />
+              <div className="form-group flex gap-2 items-center">
+                <input type="text" className="share-url" value={invite.url} readOnly onFocus={(e) => e.target.select()} />
+                <button type="button" className="btn-secondary" onClick={handleCopy}>
+                  <Copy size={14} />
+                  {copied ? 'コピーしました' : 'コピー'}
+                </button>
+              </div>
+              <p className="text-xs text-muted">
+                カメラで読み取るか、リンクを送ってください。開いた人は内容を確かめてから自分のカレンダーに追加できます（サーバーには保存されません）
+              </p>
+            </>
+          ) : (
+            <div className="restore-warnings text-xs">⚠️ {invite.error}</div>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button
+            className="btn-secondary"
+            onClick={() => downloadFile(exportICS([event]), icsFileName(event), 'text/calendar;charset=utf-8')}
+          >
+            <Download size={14} />
+            .ics
+          </button>
+          {'url' in invite && typeof navigator.share === 'function' && (
+            <button className="btn-secondary" onClick={handleShare}>
+              <Share2 size={14} />
+              送る
+            </button>
+          )}
+          <button className="btn-cancel" onClick={onClose}>
+            閉じる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ---- Invite Dialog ----
+function InviteDialog({
+  invite,
+  events,
+  homeTimeZone,
+  onClose,
+  onAdd,
+}: {
+  invite: SharedEvent;
+  events: CalendarEvent[];
+  homeTimeZone: string;
+  onClose: () => void;
+  onAdd: (invite: SharedEvent) => void;
+}) {
+  const duplicate = findDuplicateEvent(events, invite);
+  const inZone = formatInEventZone(invite, homeTimeZone);
+
+  const handleAdd = () => {
+    onAdd(invite);
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>📩 予定の招待</h3>
+          <button className="btn-ghost" onClick={onClose}>
+            <X size={18} />
+          </button>
+        </div>
+        <div className="modal-body">
+          <div className="event-card invite-preview">
+            <div>
+              <div className="event-card-time">{describeEventWhen(invite)}</div>
+              <div className="event-card-title">{invite.title}</div>
+              {invite.tags && invite.tags.length > 0 && <div className="event-card-tags">{formatTags(invite.tags)}</div>}
+              {inZone && (
+                <div className="event-card-repeat">
+                  <Globe size={11} />
+                  {inZone}
+                </div>
+              )}
+              {invite.description && <div className="event-card-desc">{invite.description}</div>}
+              {invite.recurrence && (
+                <div className="event-card-repeat">
+                  <Repeat size={11} />
+                  {describeRecurrence(invite.recurrence)}
+                </div>
+              )}
+            </div>
+          </div>
+          {duplicate && (
+            <div className="restore-warnings text-xs">
+              ⚠️ 同じ予定がすでにあります：{describeEventWhen(duplicate)} {duplicate.title}
+            </div>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-cancel" onClick={onClose}>
+            キャンセル
+          </button>
+          <button className="btn-save" onClick={handleAdd}>
+            {duplicate ? 'それでも追加' : 'カレンダーに追加'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ---- Search Panel ----
+function SearchPanel({
+  events,
+  categories,
+  getEventColor,
+  onSelect,
+  onClose,
+}: {
+  events: CalendarEvent[];
+  categories: Category[];
+  getEventColor: (event: CalendarEvent) => string;
+  onSelect: (event: CalendarEvent) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [colors, setColors] = useState<string[]>([]);
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [when, setWhen] = useState<SearchTimeFilter>('all');
+
+  const hasCriteria =
+    !!query.trim() || colors.length > 0 || categoryIds.length > 0 || !!from || !!to || when !== 'all';
+  const results = useMemo(
+    () =>
+      hasCriteria
+        ? searchEvents(
+            events,
+            {
+              query,
+              colors,
+              categories: categoryIds,
+              from: from || undefined,
+              to: to || undefined,
+              when,
+            },
+            new Date(),
+            categories
+          )
+        : [],
+    [events, categories, hasCriteria, query, colors, categoryIds, from, to, when]
+  );
+
+  const toggleColor = (name: string) => {
+    setColors((prev) => (prev.includes(name) ? prev.filter((c) => c !== name) : [...prev, name]));
+  };
+
+  const toggleCategory = (id: string) => {
+    setCategoryIds((prev) => (prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]));
+  };
+
+  return (
+    <div className="search-panel">
+      <div className="search-input-row">
+        <Search size={16} className="text-muted" />
+        <input
+          type="text"
+          placeholder="タイトル・メモを検索"
+          value={query}
+          autoFocus
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && onClose()}
+        />
+        <button className="btn-ghost" onClick={onClose} title="閉じる">
+          <X size={16} />
+        </button>
+      </div>
+      <div className="search-filters">
+        <div className="color-options">
+          {EVENT_COLORS.map((c) => (
+            <div
+              key={c.name}
+              className={`color-option search-color ${colors.includes(c.name) ? 'selected' : ''}`}
+              style={{ backgroundColor: c.value, color: c.value }}
+              onClick={() => toggleColor(c.name)}
+            />
+          ))}
+        </div>
+        {categories.map((c) => (
+          <button
+            key={c.id}
+            className={`category-chip ${categoryIds.includes(c.id) ? 'selected' : ''}`}
+            onClick={() => toggleCategory(c.id)}
+          >
+            {c.icon} {c.name}
+          </button>
+        ))}
+        <select value={when} onChange={(e) => setWhen(e.target.value as SearchTimeFilter)}>
+          {(Object.keys(SEARCH_TIME_LABELS) as SearchTimeFilter[]).map((w) => (
+            <option key={w} value={w}>
+              {SEARCH_TIME_LABELS[w]}
+            </option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1">
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <span className="text-xs text-muted">〜</span>
+          <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+        </div>
+      </div>
+      {hasCriteria && (
+        <div className="search-results">
+          {results.length > 0 ? (
+            results.map((event) => (
+              <button
+                key={`${event.id}-${event.date}`}
+                className="search-result"
+                style={{ borderLeftColor: getEventColor(event) }}
+                onClick={() => onSelect(event)}
+              >
+                <span className="search-result-date">
+                  {format(new Date(event.date), 'yyyy/M/d(E)', { locale: ja })} {formatEventRange(event)}
+                </span>
+                <span className="search-result-title">
+                  {findCategory(categories, event.categoryId)?.icon} {event.title}
+                  {event.tags && event.tags.length > 0 && <span className="text-xs text-muted"> {formatTags(event.tags)}</span>}
+                </span>
+              </button>
+            ))
+          ) : (
+            <div className="no-events">一致する予定はありません 🔍</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---- Task Panel ----
+function TaskItem({
+  task,
+  onUpdate,
+  onDelete,
+}: {
+  task: Task;
+  onUpdate: (task: Task) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [subtaskTitle, setSubtaskTitle] = useState('');
+  const progress = describeProgress(task);
+
+  const handleAddSubtask = () => {
+    if (!subtaskTitle.trim()) return;
+    onUpdate({
+      ...task,
+      subtasks: [...task.subtasks, { id: crypto.randomUUID(), title: subtaskTitle.trim(), completed: false }],
+    });
+    setSubtaskTitle('');
+  };
+
+  return (
+    <div className={`task-item ${task.completed ? 'done' : ''} priority-${task.priority}`}>
+      <div className="task-row">
+        <input type="checkbox" checked={task.completed} onChange={() => onUpdate(toggleTask(task))} />
+        <button className="task-title" onClick={() => setExpanded(!expanded)}>
+          {task.title}
+        </button>
+        {progress && <span className="text-xs text-muted">{progress}</span>}
+        {task.due && (
+          <span className={`task-due ${isOverdue(task) ? 'overdue' : ''}`}>{describeDue(task)}</span>
+        )}
+        <button className="btn-delete" onClick={() => onDelete(task.id)} title="削除">
+          <Trash2 size={13} />
+        </button>
+      </div>
+      {expanded && (
+        <div className="task-detail">
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={task.due ?? ''}
+              onChange={(e) => onUpdate({ ...task, due: e.target.value || undefined })}
+            />
+            <input
+              type="time"
+              value={task.dueTime ?? ''}
+              disabled={!task.due}
+              onChange={(e) => onUpdate({ ...task, dueTime: e.target.value || undefined })}
+              title={`期限日の通知時刻（未設定なら${TASK_REMINDER_TIME}）`}
+            />
+            <select value={task.priority} onChange={(e) => onUpdate({ ...task, priority: e.target.value as TaskPriority })}>
+              {(Object.keys(PRIORITY_LABELS) as TaskPriority[]).map((p) => (
+                <option key={p} value={p}>
+                  優先度：{PRIORITY_LABELS[p]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {task.subtasks.map((subtask) => (
+            <div key={subtask.id} className={`task-row subtask ${subtask.completed ? 'done' : ''}`}>
+              <input
+                type="checkbox"
+                checked={subtask.completed}
+                onChange={() => onUpdate(toggleSubtask(task, subtask.id))}
+              />
+              <span className="task-title">{subtask.title}</span>
+              <button
+                className="btn-ghost"
+                onClick={() => onUpdate({ ...task, subtasks: task.subtasks.filter((s) => s.id !== subtask.id) })}
+                title="削除"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+          <div className="task-row subtask">
+            <input
+              type="text"
+              placeholder="サブタスクを追加"
+              value={subtaskTitle}
+              onChange={(e) => setSubtaskTitle(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && !e.nativeEvent.isComposing && handleAddSubtask()}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TaskPanel({
+  tasks,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onClose,
+}: {
+  tasks: Task[];
+  onAdd: (task: Task) => void;
+  onUpdate: (task: Task) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [title, setTitle] = useState('');
+  const [due, setDue] = useState('');
+  const [priority, setPriority] = useState<TaskPriority>('normal');
+  const [showCompleted, setShowCompleted] = useState(false);
+
+  const shown = sortTasks(showCompleted ? tasks : tasks.filter((t) => !t.completed));
+  const completedCount = tasks.filter((t) => t.completed).length;
+
+  const handleAdd = () => {
+    if (!title.trim()) return;
+    onAdd(createTask(title.trim(), { due: due || undefined, priority }));
+    setTitle('');
+    setDue('');
+    setPriority('normal');
+  };
+
+  return (
+    <div className="search-panel task-panel">
+      <div className="search-input-row">
+        <ListTodo size={16} color="var(--text-muted)" />
+        <input
+          type="text"
+          placeholder="タスクを追加"
+          value={title}
+          autoFocus
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.nativeEvent.isComposing) handleAdd();
+            if (e.key === 'Escape') onClose();
+          }}
+        />
+        <input type="date" value={due} onChange={(e) => setDue(e.target.value)} title="期限" />
+        <select value={priority} onChange={(e) => setPriority(e.target.value as TaskPriority)} title="優先度">
+          {(Object.keys(PRIORITY_LABELS) as TaskPriority[]).map((p) => (
+            <option key={p} value={p}>
+              {PRIORITY_LABELS[p]}
+            </option>
+          ))}
+        </select>
+        <button className="btn-secondary" onClick={handleAdd} disabled={!title.trim()}>
+          <Plus size={14} />
+          追加
+        </button>
+        <button className="btn-ghost" onClick={onClose} title="閉じる">
+          <X size={16} />
+        </button>
+      </div>
+      <div className="task-list">
+        {shown.length > 0 ? (
+          shown.map((task) => <TaskItem key={task.id} task={task} onUpdate={onUpdate} onDelete={onDelete} />)
+        ) : (
+          <div className="no-events">やることはありません ✨</div>
+        )}
+      </div>
+      {completedCount > 0 && (
+        <label className="checkbox-label text-xs">
+          <input type="checkbox" checked={showCompleted} onChange={(e) => setShowCompleted(e.target.checked)} />
+          完了したタスクも表示（{completedCount}件）
+        </label>
+      )}
+    </div>
+  );
+}
+
+// ---- Drag & Drop Rescheduling ----
+// Touch drags start with a long press so that swiping still scrolls
+const LONG_PRESS_MS = 350;
+const DRAG_THRESHOLD = 5;
+
+type EventDrag = { event: CalendarEvent; x: number; y: number; overDate: string | null };
+
+// Drop targets carry their yyyy-MM-dd in data-date
+const dateKeyAt = (x: number, y: number) =>
+  (document.elementFromPoint(x, y)?.closest('[data-date]') as HTMLElement | null)?.dataset.date ?? null;
+
+function useEventDrag(onDrop: (event: CalendarEvent, date: Date) => void) {
+  const [drag, setDrag] = useState<EventDrag | null>(null);
+
+  const startDrag = (e: React.PointerEvent, event: CalendarEvent) => {
+    if (event.readOnly || e.button !== 0) return;
+    const isTouch = e.pointerType === 'touch';
+    const origin = { x: e.clientX, y: e.clientY };
+    let active = false;
+
+    const activate = (x: number, y: number) => {
+      active = true;
+      setDrag({ event, x, y, overDate: dateKeyAt(x, y) });
+    };
+    const timer = isTouch
+      ? setTimeout(() => {
+          activate(origin.x, origin.y);
+          navigator.vibrate?.(20);
+        }, LONG_PRESS_MS)
+      : undefined;
+
+    const handleMove = (ev: PointerEvent) => {
+      if (!active) {
+        if (Math.hypot(ev.clientX - origin.x, ev.clientY - origin.y) < DRAG_THRESHOLD) return;
+        // A touch that moves before the long press is a scroll
+        if (isTouch) cleanup();
+        else activate(ev.clientX, ev.clientY);
+        return;
+      }
+      setDrag((d) => d && { ...d, x: ev.clientX, y: ev.clientY, overDate: dateKeyAt(ev.clientX, ev.clientY) });
+    };
+    // Keeps the page from scrolling under an active touch drag
+    const handleTouchMove = (ev: TouchEvent) => {
+      if (active) ev.preventDefault();
+    };
+    const handleUp = (ev: PointerEvent) => {
+      cleanup();
+      if (!active) return;
+      const key = dateKeyAt(ev.clientX, ev.clientY);
+      setDrag(null);
+      if (key) onDrop(event, parseISO(key));
+    };
+    const handleCancel = () => {
+      cleanup();
+      setDrag(null);
+    };
+    const cleanup = () => {
+      clearTimeout(timer);
+      document.removeEventListener('pointermove', handleMove);
+      document.removeEventListener('pointerup', handleUp);
+      document.removeEventListener('pointercancel', handleCancel);
+      document.removeEventListener('touchmove', handleTouchMove);
+    };
+
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleUp);
+    document.addEventListener('pointercancel', handleCancel);
+    document.addEventListener('touchmove', handleTouchMove, { passive: false });
+  };
+
+  return { drag, startDrag };
+}
+
+// Alt+←/→ moves a focused event by a day, Alt+↑/↓ by a week
+const KEYBOARD_MOVE_DAYS: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -7, ArrowDown: 7 };
+
+// ---- Week / Day Timeline ----
+const HOUR_HEIGHT = 48; // px per hour
+const SNAP_MINUTES = 15;
+
+function TimelineView({
+  days,
+  events,
+  selectedDate,
+  highlightedEventId,
+  dragOverDate,
+  getEventColor,
+  onSelectDay,
+  onEventClick,
+  onEventDragStart,
+  onCreateRange,
+}: {
+  days: Date[];
+  events: CalendarEvent[];
+  selectedDate: Date;
+  highlightedEventId: string | null;
+  dragOverDate: string | null;
+  getEventColor: (event: CalendarEvent) => string;
+  onSelectDay: (day: Date) => void;
+  onEventClick: (event: CalendarEvent) => void;
+  onEventDragStart: (e: React.PointerEvent, event: CalendarEvent) => void;
+  onCreateRange: (start: Date, end: Date) => void;
+}) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [drag, setDrag] = useState<{ dayIndex: number; from: number; to: number } | null>(null);
+
+  // Keeps the current-time line moving
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Open scrolled to the morning rather than midnight
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 8 * HOUR_HEIGHT;
+  }, []);
+
+  const minutesAt = (e: React.PointerEvent<HTMLDivElement>, snap: (n: number) => number) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const minutes = ((e.clientY - rect.top) / HOUR_HEIGHT) * 60;
+    return Math.min(24 * 60, Math.max(0, snap(minutes / SNAP_MINUTES) * SNAP_MINUTES));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, dayIndex: number) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const from = minutesAt(e, Math.floor);
+    setDrag({ dayIndex, from, to: from + SNAP_MINUTES });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const to = minutesAt(e, Math.round);
+    if (to !== drag.to) setDrag({ ...drag, to });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const day = days[drag.dayIndex];
+    let start = Math.min(drag.from, drag.to);
+    let end = Math.max(drag.from, drag.to);
+    // A plain click creates a one-hour slot
+    if (end - start <= SNAP_MINUTES) {
+      start = drag.from;
+      end = Math.min(24 * 60, start + 60);
+    }
+    setDrag(null);
+    onCreateRange(addMinutes(day, start), addMinutes(day, end));
+  };
+
+  const toPx = (minutes: number) => (minutes / 60) * HOUR_HEIGHT;
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  return (
+    <div className="timeline">
+      <div className="timeline-row">
+        <div className="timeline-gutter" />
+        {days.map((day) => (
+          <button
+            key={day.toISOString()}
+            data-date={format(day, 'yyyy-MM-dd')}
+            className={`timeline-day-header ${isSameDay(day, now) ? 'today' : ''} ${isSameDay(day, selectedDate) ? 'selected' : ''} ${day.getDay() === 0 || getHoliday(day) ? 'sun' : day.getDay() === 6 ? 'sat' : ''}`}
+            title={getHoliday(day)}
+            onClick={() => onSelectDay(day)}
+          >
+            <span className="timeline-day-weekday">{format(day, 'E', { locale: ja })}</span>
+            <span className="timeline-day-number">{format(day, 'd')}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* All-day and multi-day events */}
+      <div className="timeline-row timeline-allday">
+        <div className="timeline-gutter">終日</div>
+        {days.map((day) => (
+          <div key={day.toISOString()} data-date={format(day, 'yyyy-MM-dd')} className="timeline-allday-cell">
+            {sortDayEvents(filterEventsByDate(events, day))
+              .filter((event) => !isTimelineEvent(event))
+              .map((event) => (
+                <div
+                  key={event.id}
+                  className="event-chip"
+                  style={{ backgroundColor: getEventColor(event) }}
+                  onPointerDown={(e) => onEventDragStart(e, event)}
+                  onClick={() => onEventClick(event)}
+                >
+                  {event.title}
+                </div>
+              ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="timeline-scroll" ref={scrollRef}>
+        <div className="timeline-row" style={{ height: toPx(24 * 60) }}>
+          <div className="timeline-gutter timeline-hours">
+            {Array.from({ length: 24 }, (_, h) => (
+              <span key={h} className="timeline-hour-label" style={{ top: toPx(h * 60) }}>
+                {h > 0 && `${h}:00`}
+              </span>
+            ))}
           </div>
-          <div className="form-group">
-            <label>カラー</label>
-            <div className="color-options">
-              {EVENT_COLORS.map((c) => (
+          {days.map((day, dayIndex) => (
+            <div
+              key={day.toISOString()}
+              data-date={format(day, 'yyyy-MM-dd')}
+              className={`timeline-column ${dragOverDate === format(day, 'yyyy-MM-dd') ? 'drop-target' : ''}`}
+              style={{ backgroundSize: `100% ${HOUR_HEIGHT}px` }}
+              onPointerDown={(e) => handlePointerDown(e, dayIndex)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDrag(null)}
+            >
+              {layoutTimelineEvents(filterEventsByDate(events, day), day).map((block) => (
                 <div
-                  key={c.name}
-                  className={`color-option ${color === c.name ? 'selected' : ''}`}
-                  style={{ backgroundColor: c.value, color: c.value }}
-                  onClick={() => setColor(c.name)}
-                />
+                  key={block.event.id}
+                  className={`timeline-event ${isEventDone(block.event) ? 'done' : ''} ${highlightedEventId === block.event.id ? 'highlighted' : ''}`}
+                  style={{
+                    top: toPx(block.top),
+                    height: toPx(block.height),
+                    left: `${(block.column / block.columns) * 100}%`,
+                    width: `${100 / block.columns}%`,
+                    backgroundColor: getEventColor(block.event),
+                  }}
+                  onPointerDown={(e) => {
+                    // Don't start a drag-create underneath
+                    e.stopPropagation();
+                    onEventDragStart(e, block.event);
+                  }}
+                  onClick={() => onEventClick(block.event)}
+                >
+                  <span className="timeline-event-title">{block.event.title}</span>
+                  <span className="timeline-event-time">{formatEventRange(block.event)}</span>
+                </div>
               ))}
+              {drag && drag.dayIndex === dayIndex && (
+                <div
+                  className="timeline-draft"
+                  style={{
+                    top: toPx(Math.min(drag.from, drag.to)),
+                    height: toPx(Math.max(SNAP_MINUTES, Math.abs(drag.to - drag.from))),
+                  }}
+                />
+              )}
+              {isSameDay(day, now) && <div className="timeline-now" style={{ top: toPx(nowMinutes) }} />}
             </div>
-          </div>
-        </div>
-        <div className="modal-footer">
-          <button className="btn-cancel" onClick={onClose}>
-            キャンセル
-          </button>
-          <button className="btn-save" onClick={handleSubmit} disabled={!title.trim()}>
-            追加する
-          </button>
+          ))}
         </div>
       </div>
     </div>
@@ -163,25 +1957,81 @@ function AddEventModal({
 export default function Home() {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [view, setView] = useState<CalendarView>('month');
+  const [draftRange, setDraftRange] = useState<{ start: Date; end: Date } | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showTasks, setShowTasks] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [feeds, setFeeds] = useState<FeedSubscription[]>([]);
+  const [feedCache, setFeedCache] = useState<Record<string, CalendarEvent[]>>({});
+  const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
+  const [pendingSeriesDelete, setPendingSeriesDelete] = useState<CalendarEvent | null>(null);
+  const [highlightedEventId, setHighlightedEventId] = useState<string | null>(null);
+  const [undoState, setUndoState] = useState<{ message: string; events: CalendarEvent[]; warning?: boolean } | null>(
+    null
+  );
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const [isLoaded, setIsLoaded] = useState(false);
+  // What was last saved, with the sync stamps the in-memory events may lack
+  const syncStateRef = useRef<SyncState>({ events: [], tombstones: [] });
+  const tabChannelRef = useRef<TabChannel | null>(null);
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const syncingRef = useRef(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'idle' });
+  const [pendingRestore, setPendingRestore] = useState<ParsedBackup | null>(null);
+  const [sharingEvent, setSharingEvent] = useState<CalendarEvent | null>(null);
+  const [pendingInvite, setPendingInvite] = useState<SharedEvent | null>(null);
   const [canInstall, setCanInstall] = useState(false);
   const [isInstalled, setIsInstalled] = useState(false);
 
   // Chat state
-  const [messages, setMessages] = useState<{ id: string; text: string; sender: 'user' | 'ai' }[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [conversation, setConversation] = useState<ConversationContext>({});
   const [inputValue, setInputValue] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // Jump to an event and briefly highlight its card
+  // A null id just opens the day, as from a daily digest
+  const focusEvent = useCallback((eventId: string | null, date: Date) => {
+    setSelectedDate(date);
+    setCurrentDate(date);
+    if (!eventId) return;
+    setHighlightedEventId(eventId);
+    setTimeout(() => setHighlightedEventId(null), 4000);
+  }, []);
+
   // ---- Initialize ----
   useEffect(() => {
-    // Load events
-    const loaded = loadEvents();
-    setEvents(loaded);
-    setIsLoaded(true);
+    setSettings(loadSettings());
+    setFeeds(loadFeeds());
+    setFeedCache(loadFeedCache());
+    setTasks(loadTasks());
+    const viewState = loadViewState();
+    if (viewState) {
+      setView(viewState.view);
+      setCurrentDate(parseISO(viewState.date));
+      setSelectedDate(parseISO(viewState.date));
+    }
+
+    // Load events; nothing is saved back until they are in
+    loadEvents().then(({ events: loaded, tombstones, status, rejected }) => {
+      syncStateRef.current = { events: loaded, tombstones };
+      setEvents(loaded);
+
+      // Restore the conversation, or greet on a fresh start
+      const history = loadChatHistory();
+      const restored = history ? history.messages : [createGreeting(loaded)];
+      if (status === 'recovered') restored.push(createStorageWarning(rejected));
+      setMessages(restored);
+      if (history) setConversation(history.context);
+      setIsLoaded(true);
+    });
 
     // Check notification permission
     if (typeof window !== 'undefined' && 'Notification' in window) {
@@ -196,14 +2046,52 @@ export default function Home() {
     // Register Service Worker
     registerServiceWorker();
 
+    // Deep link from a notification opened while no window was open
+    const params = new URLSearchParams(window.location.search);
+    const linkedEvent = params.get('event');
+    const linkedDate = params.get('date');
+    if (linkedDate) {
+      focusEvent(linkedEvent, parseISO(linkedDate));
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+
     // Listen for SW messages
     if ('serviceWorker' in navigator) {
       navigator.serviceWorker.addEventListener('message', (event) => {
+        // Sent once when the worker has no persisted schedule yet
         if (event.data && event.data.type === 'REQUEST_EVENTS') {
-          const currentEvents = loadEvents();
-          sendEventsToSW(currentEvents);
+          loadEvents().then(({ events: currentEvents }) => {
+            const current = loadSettings();
+            const currentTasks = loadTasks();
+            sendEventsToSW(
+              currentEvents,
+              current.defaultReminders,
+              buildDigests(currentEvents, current.digest, currentTasks),
+              buildTaskReminders(currentTasks)
+            );
+          });
+        }
+
+        // 完了 pressed on a notification
+        if (event.data && event.data.type === 'EVENT_DONE') {
+          const { eventId, date } = event.data;
+          setEvents((prev) => prev.map((e) => (e.id === eventId ? markEventDone(e, new Date(date)) : e)));
+        }
+
+        // 完了 pressed on a task due reminder
+        if (event.data && event.data.type === 'TASK_DONE') {
+          setTasks((prev) => prev.map((t) => (t.id === event.data.taskId && !t.completed ? toggleTask(t) : t)));
+        }
+
+        // 開く pressed on a notification
+        if (event.data && event.data.type === 'OPEN_EVENT') {
+          focusEvent(event.data.eventId ?? null, new Date(event.data.date));
         }
       });
+
+      navigator.serviceWorker.ready.then((registration) => {
+        registration.active?.postMessage({ type: 'CLIENT_READY' });
+      });
     }
 
     // Listen for PWA install prompt
@@ -214,35 +2102,197 @@ export default function Home() {
     };
     window.addEventListener('beforeinstallprompt', handleInstallPrompt);
 
-    // Initial greeting
-    const hour = new Date().getHours();
-    let greeting = 'こんにちは';
-    if (hour < 10) greeting = 'おはようございます';
-    else if (hour >= 18) greeting = 'こんばんは';
+    return () => {
+      window.removeEventListener('beforeinstallprompt', handleInstallPrompt);
+    };
+  }, [focusEvent]);
+
+  // Keeps the previous event list so the last delete or edit can be undone
+  const pushUndo = useCallback((message: string, snapshot: CalendarEvent[], warning = false) => {
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setUndoState({ message, events: snapshot, warning });
+    undoTimerRef.current = setTimeout(() => setUndoState(null), 6000);
+  }, []);
+
+  // ---- Sync ----
+  // Changes from another tab or the server; returns local edits that lost to newer ones
+  const applyRemoteState = useCallback((remote: SyncState, pending?: Set<string>) => {
+    const { state, updated, conflicts } = mergeStates(syncStateRef.current, remote, pending);
+    if (updated.length === 0) return conflicts;
+    syncStateRef.current = state;
+    setEvents(state.events);
+    saveEvents(state.events, state.tombstones);
+    return conflicts;
+  }, []);
 
-    const todayEvents = filterEventsByDate(loaded, new Date());
-    let greetingText = `${greeting}！😊 あなたの予定管理をお手伝いします。\n\n`;
-    if (todayEvents.length > 0) {
-      greetingText += `📅 今日は${todayEvents.length}件の予定があります。「今日の予定」と聞いてみてください！\n\n`;
+  // Push queued changes to /api/sync and pull everyone else's
+  const runSync = useCallback(async () => {
+    if (!settings.sync.enabled || syncingRef.current) return;
+    if (!navigator.onLine) {
+      setSyncStatus((prev) => ({ ...prev, state: 'offline' }));
+      return;
+    }
+    syncingRef.current = true;
+    setSyncStatus((prev) => ({ ...prev, state: 'syncing' }));
+    try {
+      const queue = loadSyncQueue();
+      const sent = new Map(queue.pending.map((id) => [id, versionOf(syncStateRef.current, id)]));
+      const response = await pushPull(syncStateRef.current, queue, settings.sync.token);
+      // Edits made while the request was out stay queued
+      const pending = loadSyncQueue().pending.filter(
+        (id) => !sent.has(id) || versionOf(syncStateRef.current, id) !== sent.get(id)
+      );
+      const conflicts = applyRemoteState(response, new Set(queue.pending));
+      saveSyncQueue({ cursor: response.cursor, pending });
+      setSyncStatus({ state: 'idle', lastSynced: new Date().toISOString() });
+      if (conflicts.length > 0) {
+        // Undo puts the local versions back, which then win as the newest edit
+        const ids = new Set(conflicts.map((e) => e.id));
+        const restored = [...syncStateRef.current.events.filter((e) => !ids.has(e.id)), ...conflicts];
+        pushUndo(`別の端末の変更と重なった${conflicts.length}件は新しい方に合わせました`, restored, true);
+      }
+    } catch (err) {
+      setSyncStatus((prev) => ({
+        ...prev,
+        state: navigator.onLine ? 'error' : 'offline',
+        error: err instanceof Error ? err.message : String(err),
+      }));
+    } finally {
+      syncingRef.current = false;
     }
-    greetingText += '「ヘルプ」で使い方を確認できます！';
+  }, [settings.sync, applyRemoteState, pushUndo]);
 
-    setMessages([{ id: '1', text: greetingText, sender: 'ai' }]);
+  // Local edits go out shortly after, batched
+  const scheduleSync = useCallback(() => {
+    if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+    syncTimerRef.current = setTimeout(runSync, SYNC_DEBOUNCE_MS);
+  }, [runSync]);
 
+  // Other tabs: take their saved changes instead of overwriting them
+  useEffect(() => {
+    if (!isLoaded) return;
+    const channel = openTabChannel((state) => applyRemoteState(state));
+    tabChannelRef.current = channel;
     return () => {
-      window.removeEventListener('beforeinstallprompt', handleInstallPrompt);
+      channel?.close();
+      tabChannelRef.current = null;
     };
-  }, []);
+  }, [isLoaded, applyRemoteState]);
+
+  // Sync on load, periodically, and as soon as the connection is back
+  useEffect(() => {
+    if (!isLoaded || !settings.sync.enabled) return;
+    const handleOffline = () => setSyncStatus((prev) => ({ ...prev, state: 'offline' }));
+    const initial = setTimeout(runSync, 0);
+    const timer = setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', runSync);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      clearTimeout(initial);
+      clearInterval(timer);
+      window.removeEventListener('online', runSync);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [isLoaded, settings.sync.enabled, runSync]);
+
+  // One automatic backup a day, of the data as first seen that day
+  useEffect(() => {
+    if (isLoaded && settings.snapshots.daily) {
+      takeDailySnapshot(createBackup(events, settings, loadChatHistory(), tasks), settings.snapshots.keep);
+    }
+  }, [events, tasks, isLoaded, settings]);
 
-  // Save events & push to SW when changed
   useEffect(() => {
-    if (isLoaded) {
-      saveEvents(events);
-      if (notificationsEnabled) {
-        sendEventsToSW(events);
+    if (isLoaded) saveTasks(tasks);
+  }, [tasks, isLoaded]);
+
+  // Save events, tell other tabs and the server, and push to SW when changed
+  useEffect(() => {
+    if (!isLoaded) return;
+    const { state, changed } = applyLocalChanges(syncStateRef.current, events);
+    if (state !== syncStateRef.current) {
+      syncStateRef.current = state;
+      saveEvents(state.events, state.tombstones);
+      tabChannelRef.current?.post(state);
+      if (settings.sync.enabled && changed.length > 0) {
+        queueChanges(changed);
+        scheduleSync();
       }
     }
-  }, [events, isLoaded, notificationsEnabled]);
+    if (notificationsEnabled) {
+      sendEventsToSW(
+        events,
+        settings.defaultReminders,
+        buildDigests(events, settings.digest, tasks),
+        buildTaskReminders(tasks)
+      );
+    }
+  }, [events, tasks, isLoaded, notificationsEnabled, settings, scheduleSync]);
+
+  // Remember the view and the shown date across reloads
+  useEffect(() => {
+    if (isLoaded) saveViewState({ view, date: format(currentDate, 'yyyy-MM-dd') });
+  }, [view, currentDate, isLoaded]);
+
+  // Refetch subscribed feeds on load and periodically
+  const runFeedRefresh = useCallback(async () => {
+    const result = await refreshFeeds(loadFeeds(), loadFeedCache());
+    // Feeds may have been added or removed while fetching
+    const latest = loadFeeds().map((f) => result.feeds.find((r) => r.id === f.id) ?? f);
+    saveFeeds(latest);
+    saveFeedCache(result.cache);
+    setFeeds(latest);
+    setFeedCache(result.cache);
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const initial = setTimeout(runFeedRefresh, 0);
+    const timer = setInterval(runFeedRefresh, FEED_REFRESH_MS);
+    return () => {
+      clearTimeout(initial);
+      clearInterval(timer);
+    };
+  }, [isLoaded, runFeedRefresh]);
+
+  // Invite links (#invite=…), whether the app was opened with one or is already running
+  useEffect(() => {
+    if (!isLoaded) return;
+    const openInvite = () => {
+      try {
+        const invite = parseInvite(window.location.hash);
+        if (!invite) return;
+        setPendingInvite(invite);
+      } catch (err) {
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: Date.now().toString(),
+            text: `⚠️ 招待リンクを開けませんでした：${err instanceof Error ? err.message : String(err)}`,
+            sender: 'ai',
+          },
+        ]);
+      }
+      // So a reload doesn't offer it again
+      window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+    };
+    openInvite();
+    window.addEventListener('hashchange', openInvite);
+    return () => window.removeEventListener('hashchange', openInvite);
+  }, [isLoaded]);
+
+  // Own events plus read-only events from subscribed feeds
+  const allEvents = useMemo(() => [...events, ...getFeedEvents(feeds, feedCache)], [events, feeds, feedCache]);
+  // What the calendar shows; the chat and notifications still see hidden categories
+  const visibleEvents = useMemo(
+    () => allEvents.filter((e) => isEventVisible(e, settings.categories)),
+    [allEvents, settings.categories]
+  );
+
+  // Persist the chat and what it was last about
+  useEffect(() => {
+    if (isLoaded) saveChatHistory({ messages, context: conversation });
+  }, [messages, conversation, isLoaded]);
 
   // Auto-scroll chat
   useEffect(() => {
@@ -254,22 +2304,239 @@ export default function Home() {
     setEvents((prev) => [...prev, event]);
   }, []);
 
-  const handleDeleteEvent = useCallback((id: string) => {
-    setEvents((prev) => prev.filter((e) => e.id !== id));
+  const handleUndo = () => {
+    if (!undoState) return;
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setEvents(undoState.events);
+    setUndoState(null);
+  };
+
+  const handleUpdateEvent = useCallback(
+    (updated: CalendarEvent) => {
+      pushUndo(`「${updated.title}」を更新しました`, events);
+      setEvents((prev) => prev.map((e) => (e.id === updated.id ? updated : e)));
+      setSelectedDate(new Date(updated.date));
+    },
+    [events, pushUndo]
+  );
+
+  const handleDeleteEvent = useCallback(
+    (id: string) => {
+      const target = events.find((e) => e.id === id);
+      if (!target) return; // Read-only feed events live outside `events`
+      pushUndo(`「${target?.title ?? '予定'}」を削除しました`, events);
+      setEvents((prev) => prev.filter((e) => e.id !== id));
+    },
+    [events, pushUndo]
+  );
+
+  const handleDeleteOccurrence = useCallback(
+    (occurrence: CalendarEvent, mode: SeriesDeleteMode) => {
+      pushUndo(`「${occurrence.title}」を削除しました`, events);
+      setEvents((prev) =>
+        prev.flatMap((e) => {
+          if (e.id !== occurrence.id) return [e];
+          const next = removeOccurrences(e, new Date(occurrence.date), mode);
+          return next ? [next] : [];
+        })
+      );
+    },
+    [events, pushUndo]
+  );
+
+  const handleAddTask = useCallback((task: Task) => {
+    setTasks((prev) => [...prev, task]);
+  }, []);
+
+  const handleUpdateTask = useCallback((updated: Task) => {
+    setTasks((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+  }, []);
+
+  const handleDeleteTask = useCallback((id: string) => {
+    setTasks((prev) => prev.filter((t) => t.id !== id));
   }, []);
 
+  // Drag-and-drop and keyboard moves keep the time of day; a clash only warns
+  const applyOccurrenceUpdate = useCallback(
+    (next: CalendarEvent[], moved: CalendarEvent, verb = '移動') => {
+      const conflicts = findConflicts([...next, ...getFeedEvents(feeds, feedCache)], moved);
+      const day = new Date(moved.date);
+      const when = format(day, 'M/d(E)', { locale: ja });
+      if (conflicts.length > 0) {
+        const others = conflicts.length > 1 ? `ほか${conflicts.length - 1}件` : '';
+        pushUndo(`⚠️ ${when}の「${conflicts[0].title}」${others}と時間が重なっています`, events, true);
+      } else {
+        pushUndo(`「${moved.title}」を${when} ${formatEventRange(moved)}に${verb}しました`, events);
+      }
+      setEvents(next);
+      setSelectedDate(day);
+      setCurrentDate(day);
+      setHighlightedEventId(moved.id);
+      setTimeout(() => setHighlightedEventId(null), 4000);
+    },
+    [events, feeds, feedCache, pushUndo]
+  );
+
+  const handleMoveEvent = useCallback(
+    (occurrence: CalendarEvent, targetDay: Date) => {
+      if (occurrence.readOnly || isSameDay(new Date(occurrence.date), targetDay)) return;
+      const { events: next, moved } = rescheduleOccurrence(events, occurrence, targetDay);
+      applyOccurrenceUpdate(next, moved);
+    },
+    [events, applyOccurrenceUpdate]
+  );
+
+  const { drag, startDrag } = useEventDrag(handleMoveEvent);
+
+  const handleEventCardKeyDown = (e: React.KeyboardEvent, event: CalendarEvent) => {
+    if (e.target !== e.currentTarget) return; // keys on the delete button
+    if (e.key === 'Enter') {
+      openEditModal(event);
+    } else if (e.altKey && KEYBOARD_MOVE_DAYS[e.key]) {
+      e.preventDefault();
+      handleMoveEvent(event, addDays(new Date(event.date), KEYBOARD_MOVE_DAYS[e.key]));
+    }
+  };
+
+  // Occurrences of a recurring event edit the whole series
+  const openEditModal = (occurrence: CalendarEvent) => {
+    if (occurrence.readOnly) return;
+    setEditingEvent(events.find((e) => e.id === occurrence.id) ?? occurrence);
+    setShowAddModal(true);
+  };
+
+  const closeEventModal = () => {
+    setShowAddModal(false);
+    setEditingEvent(null);
+    setDraftRange(null);
+  };
+
+  // Switching views keeps the selected day in sight
+  const changeView = (next: CalendarView, date: Date = selectedDate) => {
+    setView(next);
+    setCurrentDate(date);
+    setSelectedDate(date);
+  };
+
+  const handleNavigate = (direction: -1 | 1) => {
+    if (view === 'month') setCurrentDate(addMonths(currentDate, direction));
+    else if (view === 'week') setCurrentDate(addWeeks(currentDate, direction));
+    else {
+      const next = addDays(currentDate, direction);
+      setCurrentDate(next);
+      setSelectedDate(next);
+    }
+  };
+
+  const handleCreateRange = (start: Date, end: Date) => {
+    setSelectedDate(start);
+    setDraftRange({ start, end });
+    setShowAddModal(true);
+  };
+
   const handleToggleNotifications = async () => {
     if (notificationsEnabled) {
       setNotificationsEnabled(false);
+      // The worker keeps its own schedule, so hand it an empty one
+      sendEventsToSW([], settings.defaultReminders);
       return;
     }
     const granted = await requestNotificationPermission();
     setNotificationsEnabled(granted);
     if (granted) {
-      sendEventsToSW(events);
+      sendEventsToSW(
+        events,
+        settings.defaultReminders,
+        buildDigests(events, settings.digest, tasks),
+        buildTaskReminders(tasks)
+      );
+    }
+  };
+
+  const handleSaveSettings = (next: AppSettings) => {
+    // Turning sync on sends everything once, then only changes
+    if (next.sync.enabled && !settings.sync.enabled) {
+      const { events: saved, tombstones } = syncStateRef.current;
+      saveSyncQueue({ cursor: 0, pending: [...saved, ...tombstones].map((e) => e.id) });
+    }
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const handleAddFeed = (name: string, url: string) => {
+    const next = [...feeds, { id: crypto.randomUUID(), name, url, color: FEED_COLORS[feeds.length % FEED_COLORS.length] }];
+    saveFeeds(next);
+    setFeeds(next);
+    runFeedRefresh();
+  };
+
+  const handleRemoveFeed = (id: string) => {
+    const next = feeds.filter((f) => f.id !== id);
+    const cache = { ...feedCache };
+    delete cache[id];
+    saveFeeds(next);
+    saveFeedCache(cache);
+    setFeeds(next);
+    setFeedCache(cache);
+  };
+
+  const handleExportICS = (range?: { from: Date; to: Date }) => {
+    const suffix = range ? `-${format(range.from, 'yyyyMMdd')}-${format(range.to, 'yyyyMMdd')}` : '';
+    downloadFile(exportICS(events, range), `ai-secretary${suffix}.ics`, 'text/calendar;charset=utf-8');
+  };
+
+  const handleImportICS = async (file: File) => {
+    const { events: imported, warnings } = parseICS(await file.text());
+    const merged = mergeImportedEvents(events, imported);
+    pushUndo(`${merged.added}件を追加、${merged.updated}件を更新しました`, events);
+    setEvents(merged.events);
+    if (warnings.length > 0) {
+      setMessages((prev) => [
+        ...prev,
+        { id: Date.now().toString(), text: `📥 インポート時の注意：\n\n${warnings.join('\n')}`, sender: 'ai' },
+      ]);
+    }
+  };
+
+  const handleExportBackup = () => {
+    const bundle = createBackup(events, settings, { messages, context: conversation }, tasks);
+    downloadFile(JSON.stringify(bundle, null, 2), backupFileName(bundle), 'application/json');
+  };
+
+  const handleOpenBackup = async (source: File | BackupBundle) => {
+    try {
+      setPendingRestore(source instanceof File ? await readBackupFile(source) : parseBackup(source));
+    } catch (err) {
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: Date.now().toString(),
+          text: `⚠️ バックアップを読み込めませんでした：${err instanceof Error ? err.message : String(err)}`,
+          sender: 'ai',
+        },
+      ]);
+    }
+  };
+
+  const handleRestore = (backup: ParsedBackup, mode: RestoreMode) => {
+    pushUndo('バックアップから復元しました', events);
+    setEvents(restoreEvents(events, backup, mode));
+    setTasks(restoreTasks(tasks, backup, mode));
+    if (mode === 'replace') {
+      handleSaveSettings(restoreSettings(settings, backup));
+      if (backup.chat) {
+        setMessages(backup.chat.messages);
+        setConversation(backup.chat.context);
+      }
     }
   };
 
+  const handleAcceptInvite = (invite: SharedEvent) => {
+    const id = crypto.randomUUID();
+    handleAddEvent({ id, ...invite });
+    focusEvent(id, new Date(invite.date));
+  };
+
   const handleInstall = async () => {
     if (!deferredPrompt) return;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -283,7 +2550,51 @@ export default function Home() {
     deferredPrompt = null;
   };
 
-  const handleSendMessage = () => {
+  const applyAssistantAction = (action: AssistantAction) => {
+    const event = action.event;
+    if (action.type === 'add' && event?.title && event.date) {
+      // No color of its own: the event takes its category's, or the default
+      const { title, date, end, allDay, description, categoryId, recurrence } = event;
+      handleAddEvent({ id: crypto.randomUUID(), title, date, end, allDay, description, categoryId, recurrence });
+      setSelectedDate(new Date(date));
+      setCurrentDate(new Date(date));
+    }
+    if (action.type === 'update' && event?.id) {
+      const target = events.find((e) => e.id === event.id);
+      if (target) {
+        // Chat changes one occurrence, same path as drag-and-drop, whether it moves it or
+        // renames it; a new start comes with its end (the sender keeps the length)
+        const date = action.date ?? target.date;
+        const occurrence = filterEventsByDate([target], new Date(date)).find((o) => o.date === date) ?? target;
+        const { events: next, moved } = updateOccurrence(events, occurrence, {
+          date: event.date ?? occurrence.date,
+          end: event.end ?? (event.date ? undefined : occurrence.end),
+          title: event.title ?? occurrence.title,
+          description: event.description ?? occurrence.description,
+        });
+        applyOccurrenceUpdate(next, moved, event.date || event.end ? '移動' : '変更');
+      }
+    }
+    if (action.type === 'delete' && event?.id) {
+      const target = events.find((e) => e.id === event.id);
+      // Recurring events ask which occurrences go, same as the delete button; one-offs
+      // only get here once 「はい」 answered confirmDelete
+      if (target?.recurrence) setPendingSeriesDelete({ ...target, date: event.date ?? target.date });
+      else if (target) handleDeleteEvent(event.id);
+    }
+    if ((action.type === 'search' || action.type === 'focus') && event?.id && event.date) {
+      focusEvent(event.id, new Date(event.date));
+    }
+    if (action.type === 'view' && action.view) {
+      changeView(action.view, action.date ? new Date(action.date) : selectedDate);
+    }
+    if (action.type === 'addTask' && action.task?.title) {
+      const { title, due, priority } = action.task;
+      handleAddTask(createTask(title, { due, priority }));
+    }
+  };
+
+  const handleSendMessage = async () => {
     if (!inputValue.trim()) return;
 
     const userMsg = { id: Date.now().toString(), text: inputValue, sender: 'user' as const };
@@ -292,14 +2603,32 @@ export default function Home() {
     setInputValue('');
     setIsTyping(true);
 
-    setTimeout(() => {
-      const result = parseAIResponse(currentInput, events);
-      setMessages((prev) => [
-        ...prev,
-        { id: (Date.now() + 1).toString(), text: result.text, sender: 'ai' },
-      ]);
-      setIsTyping(false);
-    }, 600 + Math.random() * 600);
+    // Keep the typing indicator up for a moment even when the answer is instant
+    const minDelay = new Promise((resolve) => setTimeout(resolve, 600 + Math.random() * 600));
+    const [result] = await Promise.all([
+      assistant.respond(currentInput, {
+        events: allEvents,
+        conversation,
+        scheduling: settings,
+        categories: settings.categories,
+        tasks,
+      }),
+      minDelay,
+    ]);
+    if (result.action) applyAssistantAction(result.action);
+    if (result.context) setConversation(result.context);
+    setMessages((prev) => [
+      ...prev,
+      { id: (Date.now() + 1).toString(), text: result.text, sender: 'ai' },
+    ]);
+    setIsTyping(false);
+  };
+
+  const handleClearChat = () => {
+    if (!window.confirm('チャット履歴を消去しますか？')) return;
+    clearChatHistory();
+    setConversation({});
+    setMessages([createGreeting(events)]);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -310,10 +2639,27 @@ export default function Home() {
   };
 
   const days = getMonthDays(currentDate);
-  const selectedDayEvents = filterEventsByDate(events, selectedDate);
+  const timelineDays = view === 'week' ? getWeekDays(currentDate) : [currentDate];
+  const weekDays = getWeekDays(currentDate);
+  const headerTitle =
+    view === 'month'
+      ? format(currentDate, 'yyyy年 M月', { locale: ja })
+      : view === 'week'
+        ? `${format(weekDays[0], 'yyyy年 M月d日', { locale: ja })} – ${format(weekDays[6], 'M月d日', { locale: ja })}`
+        : format(currentDate, 'yyyy年 M月d日(E)', { locale: ja });
+  const selectedDayEvents = filterEventsByDate(visibleEvents, selectedDate);
+  // Today picks up whatever is overdue, so nothing slips off the radar
+  const selectedDayTasks = isSameDay(selectedDate, new Date())
+    ? tasksForDay(tasks, selectedDate)
+    : sortTasks(openTasksDueOn(tasks, selectedDate));
 
-  const getEventColor = (colorName?: string) => {
-    return EVENT_COLORS.find((c) => c.name === colorName)?.value || EVENT_COLORS[0].value;
+  const eventColor = (event: CalendarEvent) => getEventColor(event, settings.categories);
+
+  const toggleCategory = (id: string) => {
+    handleSaveSettings({
+      ...settings,
+      categories: settings.categories.map((c) => (c.id === id ? { ...c, hidden: !c.hidden || undefined } : c)),
+    });
   };
 
   return (
@@ -350,6 +2696,18 @@ export default function Home() {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {settings.sync.enabled && (
+            <button
+              className={`btn-ghost sync-status ${syncStatus.state}`}
+              onClick={runSync}
+              title={describeSyncStatus(syncStatus)}
+            >
+              {syncStatus.state === 'offline' || syncStatus.state === 'error' ? <CloudOff size={18} /> : <Cloud size={18} />}
+            </button>
+          )}
+          <button className="btn-ghost" onClick={() => setShowSettings(true)} title="設定">
+            <Settings size={18} />
+          </button>
           <button
             className="btn-ghost flex items-center gap-1"
             onClick={handleToggleNotifications}
@@ -372,11 +2730,34 @@ export default function Home() {
         {/* Calendar Section */}
         <div className="card">
           <div className="calendar-header">
-            <h2 className="text-lg font-bold">
-              {format(currentDate, 'yyyy年 M月', { locale: ja })}
-            </h2>
+            <h2 className="text-lg font-bold">{headerTitle}</h2>
             <div className="flex items-center gap-2">
-              <button className="calendar-nav-btn" onClick={() => setCurrentDate(subMonths(currentDate, 1))}>
+              <button
+                className={`calendar-nav-btn ${showSearch ? 'active' : ''}`}
+                onClick={() => setShowSearch(!showSearch)}
+                title="予定を検索"
+              >
+                <Search size={18} />
+              </button>
+              <button
+                className={`calendar-nav-btn ${showTasks ? 'active' : ''}`}
+                onClick={() => setShowTasks(!showTasks)}
+                title="やることリスト"
+              >
+                <ListTodo size={18} />
+              </button>
+              <div className="view-switcher">
+                {(['month', 'week', 'day'] as CalendarView[]).map((v) => (
+                  <button
+                    key={v}
+                    className={`view-switcher-btn ${view === v ? 'active' : ''}`}
+                    onClick={() => changeView(v)}
+                  >
+                    {VIEW_LABELS[v]}
+                  </button>
+                ))}
+              </div>
+              <button className="calendar-nav-btn" onClick={() => handleNavigate(-1)}>
                 <ChevronLeft size={18} />
               </button>
               <button
@@ -388,77 +2769,160 @@ export default function Home() {
               >
                 今日
               </button>
-              <button className="calendar-nav-btn" onClick={() => setCurrentDate(addMonths(currentDate, 1))}>
+              <button className="calendar-nav-btn" onClick={() => handleNavigate(1)}>
                 <ChevronRight size={18} />
               </button>
             </div>
           </div>
 
-          <div className="calendar-body">
-            <div className="calendar-grid">
-              {['日', '月', '火', '水', '木', '金', '土'].map((day, i) => (
-                <div key={day} className={`calendar-day-header ${i === 0 ? 'sun' : i === 6 ? 'sat' : ''}`}>
-                  {day}
-                </div>
+          {showSearch && (
+            <SearchPanel
+              events={allEvents}
+              categories={settings.categories}
+              getEventColor={eventColor}
+              onSelect={(event) => focusEvent(event.id, new Date(event.date))}
+              onClose={() => setShowSearch(false)}
+            />
+          )}
+
+          {showTasks && (
+            <TaskPanel
+              tasks={tasks}
+              onAdd={handleAddTask}
+              onUpdate={handleUpdateTask}
+              onDelete={handleDeleteTask}
+              onClose={() => setShowTasks(false)}
+            />
+          )}
+
+          {settings.categories.length > 0 && (
+            <div className="category-filter">
+              {settings.categories.map((c) => (
+                <button
+                  key={c.id}
+                  className={`category-chip ${c.hidden ? 'off' : ''}`}
+                  onClick={() => toggleCategory(c.id)}
+                  title={c.hidden ? 'カレンダーに表示する' : 'カレンダーから隠す'}
+                >
+                  <span className="category-dot" style={{ backgroundColor: c.color }} />
+                  {c.icon} {c.name}
+                </button>
               ))}
+            </div>
+          )}
 
-              {days.map((day, idx) => {
-                const dayEvents = filterEventsByDate(events, day);
-                const isToday = isSameDay(day, new Date());
-                const isSelected = isSameDay(day, selectedDate);
-                const notCurrentMonth = !isSameMonth(day, currentDate);
-                const dayOfWeek = day.getDay();
-
-                return (
-                  <div
-                    key={idx}
-                    className={`calendar-day ${isToday ? 'today' : ''} ${isSelected ? 'selected' : ''} ${notCurrentMonth ? 'other-month' : ''}`}
-                    onClick={() => setSelectedDate(day)}
-                  >
-                    <span className={`day-number ${dayOfWeek === 0 ? 'sun' : dayOfWeek === 6 ? 'sat' : ''}`}>
-                      {isToday ? (
+          <div className="calendar-body">
+            {view !== 'month' ? (
+              <TimelineView
+                days={timelineDays}
+                events={visibleEvents}
+                selectedDate={selectedDate}
+                highlightedEventId={highlightedEventId}
+                dragOverDate={drag?.overDate ?? null}
+                getEventColor={eventColor}
+                onSelectDay={(day) => (view === 'week' ? changeView('day', day) : setSelectedDate(day))}
+                onEventClick={(event) => {
+                  setSelectedDate(new Date(event.date));
+                  openEditModal(event);
+                }}
+                onEventDragStart={startDrag}
+                onCreateRange={handleCreateRange}
+              />
+            ) : (
+              <div className="calendar-grid">
+                {['日', '月', '火', '水', '木', '金', '土'].map((day, i) => (
+                  <div key={day} className={`calendar-day-header ${i === 0 ? 'sun' : i === 6 ? 'sat' : ''}`}>
+                    {day}
+                  </div>
+                ))}
+
+                {days.map((day, idx) => {
+                  const dayEvents = sortDayEvents(filterEventsByDate(visibleEvents, day));
+                  const dueTasks = openTasksDueOn(tasks, day);
+                  const isToday = isSameDay(day, new Date());
+                  const isSelected = isSameDay(day, selectedDate);
+                  const dateKey = format(day, 'yyyy-MM-dd');
+                  const notCurrentMonth = !isSameMonth(day, currentDate);
+                  const dayOfWeek = day.getDay();
+                  const holiday = getHoliday(day);
+
+                  return (
+                    <div
+                      key={idx}
+                      data-date={dateKey}
+                      className={`calendar-day ${isToday ? 'today' : ''} ${isSelected ? 'selected' : ''} ${notCurrentMonth ? 'other-month' : ''} ${drag?.overDate === dateKey ? 'drop-target' : ''}`}
+                      onClick={() => setSelectedDate(day)}
+                    >
+                      {settings.showRokuyo && <span className="rokuyo">{getRokuyo(day)}</span>}
+                      <span className={`day-number ${dayOfWeek === 0 || holiday ? 'sun' : dayOfWeek === 6 ? 'sat' : ''}`}>
+                        {isToday ? (
+                          <span
+                            style={{
+                              background: 'var(--primary)',
+                              color: 'white',
+                              borderRadius: '50%',
+                              width: 26,
+                              height: 26,
+                              display: 'inline-flex',
+                              alignItems: 'center',
+                              justifyContent: 'center',
+                              fontWeight: 600,
+                              fontSize: '0.8rem',
+                            }}
+                          >
+                            {format(day, 'd')}
+                          </span>
+                        ) : (
+                          format(day, 'd')
+                        )}
+                      </span>
+                      {holiday && (
+                        <span className="holiday-name" title={holiday}>
+                          {holiday}
+                        </span>
+                      )}
+                      {dayEvents.slice(0, 3).map((event) => {
+                        // Multi-day events join up with the neighbouring cells
+                        const start = new Date(event.date);
+                        const last = new Date(new Date(event.end ?? event.date).getTime() - (event.allDay ? 0 : 1));
+                        const continuesBefore = start < day && !isSameDay(start, day);
+                        const continuesAfter = last > day && !isSameDay(last, day);
+                        const showTitle = !continuesBefore || day.getDay() === 0;
+                        return (
+                          <div
+                            key={event.id}
+                            className={`event-chip ${continuesBefore ? 'span-before' : ''} ${continuesAfter ? 'span-after' : ''} ${drag?.event.id === event.id ? 'dragging' : ''}`}
+                            style={{ backgroundColor: eventColor(event) }}
+                            onPointerDown={(e) => startDrag(e, event)}
+                          >
+                            {showTitle ? event.title : '\u00a0'}
+                          </div>
+                        );
+                      })}
+                      {dayEvents.length > 3 && (
+                        <span className="text-xs text-muted">+{dayEvents.length - 3}</span>
+                      )}
+                      {dueTasks.length > 0 && (
                         <span
-                          style={{
-                            background: 'var(--primary)',
-                            color: 'white',
-                            borderRadius: '50%',
-                            width: 26,
-                            height: 26,
-                            display: 'inline-flex',
-                            alignItems: 'center',
-                            justifyContent: 'center',
-                            fontWeight: 600,
-                            fontSize: '0.8rem',
-                          }}
+                          className={`task-marker ${dueTasks.some((t) => isOverdue(t)) ? 'overdue' : ''}`}
+                          title={dueTasks.map((t) => t.title).join('\n')}
                         >
-                          {format(day, 'd')}
+                          ☑ {dueTasks.length}
                         </span>
-                      ) : (
-                        format(day, 'd')
                       )}
-                    </span>
-                    {dayEvents.slice(0, 3).map((event) => (
-                      <div
-                        key={event.id}
-                        className="event-chip"
-                        style={{ backgroundColor: getEventColor(event.color) }}
-                      >
-                        {event.title}
-                      </div>
-                    ))}
-                    {dayEvents.length > 3 && (
-                      <span className="text-xs text-muted">+{dayEvents.length - 3}</span>
-                    )}
-                  </div>
-                );
-              })}
-            </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
 
             {/* Selected Day Detail */}
             <div className="day-detail">
               <div className="day-detail-header">
                 <h3 className="day-detail-title">
                   📅 {format(selectedDate, 'M月d日(E)', { locale: ja })}の予定
+                  {getHoliday(selectedDate) && <span className="day-detail-holiday">🎌 {getHoliday(selectedDate)}</span>}
+                  {settings.showRokuyo && <span className="day-detail-rokuyo">{getRokuyo(selectedDate)}</span>}
                 </h3>
                 <button className="btn-add" onClick={() => setShowAddModal(true)}>
                   <Plus size={14} style={{ display: 'inline', verticalAlign: 'middle', marginRight: 2 }} />
@@ -467,23 +2931,91 @@ export default function Home() {
               </div>
 
               {selectedDayEvents.length > 0 ? (
-                selectedDayEvents
-                  .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-                  .map((event) => (
-                    <div key={event.id} className="event-card" style={{ borderLeftColor: getEventColor(event.color) }}>
+                sortDayEvents(selectedDayEvents).map((event) => (
+                    <div
+                      key={event.id}
+                      className={`event-card ${isEventDone(event) ? 'done' : ''} ${highlightedEventId === event.id ? 'highlighted' : ''}`}
+                      style={{ borderLeftColor: eventColor(event) }}
+                      tabIndex={0}
+                      title={event.readOnly ? undefined : 'Alt+←→で1日、Alt+↑↓で1週間移動'}
+                      aria-keyshortcuts={event.readOnly ? undefined : 'Alt+ArrowLeft Alt+ArrowRight Alt+ArrowUp Alt+ArrowDown'}
+                      onClick={() => openEditModal(event)}
+                      onKeyDown={(e) => handleEventCardKeyDown(e, event)}
+                    >
                       <div>
-                        <div className="event-card-time">{formatEventTime(event.date)}</div>
-                        <div className="event-card-title">{event.title}</div>
+                        <div className="event-card-time">
+                          {formatEventRange(event)}
+                          {isEventDone(event) && <span className="event-card-done">✓ 完了</span>}
+                        </div>
+                        <div className="event-card-title">
+                          {findCategory(settings.categories, event.categoryId)?.icon} {event.title}
+                        </div>
+                        {event.tags && event.tags.length > 0 && (
+                          <div className="event-card-tags">{formatTags(event.tags)}</div>
+                        )}
+                        {formatInEventZone(event, settings.homeTimeZone) && (
+                          <div className="event-card-repeat">
+                            <Globe size={11} />
+                            {formatInEventZone(event, settings.homeTimeZone)}
+                          </div>
+                        )}
                         {event.description && <div className="event-card-desc">{event.description}</div>}
+                        {event.recurrence && (
+                          <div className="event-card-repeat">
+                            <Repeat size={11} />
+                            {describeRecurrence(event.recurrence)}
+                          </div>
+                        )}
+                        {event.readOnly && (
+                          <div className="event-card-repeat">
+                            <Lock size={11} />
+                            {feeds.find((f) => f.id === event.feedId)?.name ?? '購読カレンダー'}
+                          </div>
+                        )}
+                      </div>
+                      <div className="event-card-actions">
+                        <button
+                          className="btn-ghost"
+                          title="共有"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            // A recurring event goes as the whole series
+                            setSharingEvent(events.find((x) => x.id === event.id) ?? event);
+                          }}
+                        >
+                          <Share2 size={14} />
+                        </button>
+                        {!event.readOnly && (
+                          <button
+                            className="btn-delete"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              if (event.recurrence) setPendingSeriesDelete(event);
+                              else handleDeleteEvent(event.id);
+                            }}
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
                       </div>
-                      <button className="btn-delete" onClick={() => handleDeleteEvent(event.id)}>
-                        <Trash2 size={14} />
-                      </button>
                     </div>
                   ))
               ) : (
                 <div className="no-events">予定はありません ✨</div>
               )}
+
+              {selectedDayTasks.length > 0 && (
+                <div className="day-tasks">
+                  <div className="day-tasks-title">✅ やること</div>
+                  {selectedDayTasks.map((task) => (
+                    <label key={task.id} className="task-row">
+                      <input type="checkbox" checked={task.completed} onChange={() => handleUpdateTask(toggleTask(task))} />
+                      <span className="task-title">{task.title}</span>
+                      {isOverdue(task) && <span className="task-due overdue">{describeDue(task)}</span>}
+                    </label>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -495,7 +3027,12 @@ export default function Home() {
               <div className="chat-header-status" />
               <span className="font-bold text-sm">AI アシスタント</span>
             </div>
-            <span className="text-xs text-muted">ローカル処理 • 無料</span>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted">{assistant.label}</span>
+              <button className="btn-ghost" onClick={handleClearChat} title="チャット履歴を消去">
+                <Trash2 size={14} />
+              </button>
+            </div>
           </div>
 
           <div className="chat-messages">
@@ -503,7 +3040,19 @@ export default function Home() {
               <div key={msg.id} className={`message ${msg.sender}`}>
                 {msg.text.split('\n').map((line, i) => (
                   <React.Fragment key={i}>
-                    {line}
+                    {splitEventRefs(line).map((segment, j) =>
+                      typeof segment === 'string' ? (
+                        segment
+                      ) : (
+                        <button
+                          key={j}
+                          className="event-ref"
+                          onClick={() => focusEvent(segment.id, new Date(segment.date))}
+                        >
+                          {segment.label}
+                        </button>
+                      )
+                    )}
                     {i < msg.text.split('\n').length - 1 && <br />}
                   </React.Fragment>
                 ))}
@@ -534,13 +3083,83 @@ export default function Home() {
         </div>
       </main>
 
-      {/* Add Event Modal */}
-      <AddEventModal
-        isOpen={showAddModal}
-        onClose={() => setShowAddModal(false)}
-        onAdd={handleAddEvent}
-        defaultDate={selectedDate}
+      {/* Add / Edit Event Modal */}
+      {showAddModal && (
+        <AddEventModal
+          onClose={closeEventModal}
+          onAdd={handleAddEvent}
+          onUpdate={handleUpdateEvent}
+          defaultDate={draftRange?.start ?? selectedDate}
+          defaultEnd={draftRange?.end}
+          event={editingEvent}
+          categories={settings.categories}
+        />
+      )}
+
+      {/* Settings Modal */}
+      {showSettings && (
+        <SettingsModal
+          settings={settings}
+          onClose={() => setShowSettings(false)}
+          onSave={handleSaveSettings}
+          onExportICS={handleExportICS}
+          onImportICS={handleImportICS}
+          onExportBackup={handleExportBackup}
+          onOpenBackup={handleOpenBackup}
+          feeds={feeds}
+          onAddFeed={handleAddFeed}
+          onRemoveFeed={handleRemoveFeed}
+          onRefreshFeeds={runFeedRefresh}
+        />
+      )}
+
+      {/* Recurring Delete Dialog */}
+      <RecurringDeleteDialog
+        event={pendingSeriesDelete}
+        onClose={() => setPendingSeriesDelete(null)}
+        onDelete={handleDeleteOccurrence}
       />
+
+      {/* Restore Dialog */}
+      <RestoreDialog
+        key={pendingRestore?.exportedAt}
+        backup={pendingRestore}
+        events={events}
+        onClose={() => setPendingRestore(null)}
+        onRestore={handleRestore}
+      />
+
+      {/* Share Dialog */}
+      {sharingEvent && <ShareDialog event={sharingEvent} onClose={() => setSharingEvent(null)} />}
+
+      {/* Invite Dialog */}
+      {pendingInvite && (
+        <InviteDialog
+          invite={pendingInvite}
+          events={events}
+          homeTimeZone={settings.homeTimeZone}
+          onClose={() => setPendingInvite(null)}
+          onAdd={handleAcceptInvite}
+        />
+      )}
+
+      {/* Drag Preview */}
+      {drag && (
+        <div className="drag-ghost" style={{ left: drag.x, top: drag.y, backgroundColor: eventColor(drag.event) }}>
+          {drag.event.title}
+        </div>
+      )}
+
+      {/* Undo Toast */}
+      {undoState && (
+        <div className={`toast ${undoState.warning ? 'warning' : ''}`}>
+          <span>{undoState.message}</span>
+          <button className="btn-undo" onClick={handleUndo}>
+            <Undo2 size={14} />
+            元に戻す
+          </button>
+        </div>
+      )}
     </div>
   );
 }
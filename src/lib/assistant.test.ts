@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CalendarEvent } from './calendar';
+import type { ConversationContext } from './chat';
+import { llmProvider, type AssistantContext } from './assistant';
+import { DEFAULT_CATEGORIES } from './categories';
+import { DEFAULT_SETTINGS } from './settings';
+
+const EVENTS: CalendarEvent[] = [
+    { id: 'a', title: '会議', date: '2026-10-20T01:00:00.000Z' },
+    { id: 'b', title: '会議', date: '2026-10-21T01:00:00.000Z' },
+];
+
+const contextWith = (conversation: ConversationContext): AssistantContext => ({
+    events: EVENTS,
+    conversation,
+    scheduling: DEFAULT_SETTINGS,
+    categories: DEFAULT_CATEGORIES,
+    tasks: [],
+});
+
+describe('llmProvider', () => {
+    const fetchMock = vi.fn(async () => Response.json({ text: 'モデルの返事' }));
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+        vi.stubGlobal('fetch', fetchMock);
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        fetchMock.mockClear();
+    });
+
+    it('leaves the answer to a rules list of candidates to the rules', async () => {
+        const reply = await llmProvider.respond(
+            '2番目',
+            contextWith({ lastEvents: EVENTS.map(({ id, date }) => ({ id, date })), choosing: { type: 'delete' } })
+        );
+        expect(fetchMock).not.toHaveBeenCalled();
+        expect(reply.context?.pending?.action).toMatchObject({ type: 'delete', event: { id: 'b' } });
+    });
+
+    it('leaves picking a suggested time to the rules', async () => {
+        const slot = { date: '2026-10-20T05:00:00.000Z', end: '2026-10-20T06:00:00.000Z' };
+        const reply = await llmProvider.respond('はい、予約して', contextWith({ booking: { title: '面談', slots: [slot] } }));
+        expect(fetchMock).not.toHaveBeenCalled();
+        expect(reply.action).toEqual({ type: 'add', event: { title: '面談', ...slot } });
+    });
+
+    it('asks the model otherwise, and drops references from before its turn', async () => {
+        const reply = await llmProvider.respond('来週の予定は？', contextWith({ lastEvents: [{ id: 'a', date: EVENTS[0].date }] }));
+        expect(fetchMock).toHaveBeenCalledOnce();
+        expect(reply).toEqual({ text: 'モデルの返事', context: {} });
+    });
+});
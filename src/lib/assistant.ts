@@ -0,0 +1,102 @@
+import { addDays, subDays } from 'date-fns';
+import { CalendarEvent, AssistantReply, parseAIResponse } from './calendar';
+import { expandEvents } from './recurrence';
+import type { ConversationContext } from './chat';
+import type { SchedulingSettings } from './settings';
+import type { Category } from './categories';
+import type { Task } from './tasks';
+
+export type AssistantProviderId = 'rules' | 'llm';
+
+export interface AssistantContext {
+    events: CalendarEvent[];
+    conversation: ConversationContext;
+    scheduling: SchedulingSettings; // working hours for the free-time finder
+    categories: Category[]; // for 「今週の仕事の予定」
+    tasks: Task[]; // for 「やることリスト」
+}
+
+export interface AssistantProvider {
+    id: AssistantProviderId;
+    label: string; // shown in the chat header
+    respond: (input: string, context: AssistantContext) => Promise<AssistantReply>;
+}
+
+// Body of POST /api/assistant
+export interface AssistantRequest {
+    input: string;
+    now: string; // ISO string
+    timeZone: string; // IANA zone of the browser
+    events: Pick<CalendarEvent, 'id' | 'title' | 'date' | 'end' | 'allDay' | 'description' | 'readOnly' | 'recurrence'>[]; // occurrences
+}
+
+// The keyword rules in parseAIResponse; works offline and costs nothing
+export const rulesProvider: AssistantProvider = {
+    id: 'rules',
+    label: 'ローカル処理 • 無料',
+    respond: async (input, { events, conversation, scheduling, categories, tasks }) =>
+        parseAIResponse(input, events, conversation, scheduling, categories, tasks),
+};
+
+// Occurrences sent along as context; far-off events rarely matter to one chat turn
+const CONTEXT_PAST_DAYS = 7;
+const CONTEXT_FUTURE_DAYS = 60;
+const MAX_CONTEXT_EVENTS = 200;
+const REQUEST_TIMEOUT_MS = 30000;
+
+const buildRequest = (input: string, events: CalendarEvent[]): AssistantRequest => {
+    const now = new Date();
+    const occurrences = expandEvents(events, subDays(now, CONTEXT_PAST_DAYS), addDays(now, CONTEXT_FUTURE_DAYS))
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+        .slice(0, MAX_CONTEXT_EVENTS);
+    return {
+        input,
+        now: now.toISOString(),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        events: occurrences.map(({ id, title, date, end, allDay, description, readOnly, recurrence }) => ({
+            id,
+            title,
+            date,
+            end,
+            allDay,
+            description,
+            readOnly,
+            recurrence,
+        })),
+    };
+};
+
+/**
+ * An OpenAI-compatible model behind /api/assistant. Falls back to the rules
+ * when the route is unconfigured or the endpoint cannot be reached, and leaves
+ * answers to the rules' own questions to them as well: a pending 「削除しますか？」
+ * or 「変更しますか？」, a list to choose from (「2番目」) or suggested times
+ * (「はい、予約して」).
+ */
+export const llmProvider: AssistantProvider = {
+    id: 'llm',
+    label: 'LLM',
+    respond: async (input, context) => {
+        const { pending, choosing, booking } = context.conversation;
+        if (pending || choosing || booking) return rulesProvider.respond(input, context);
+        try {
+            const response = await fetch('/api/assistant', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(buildRequest(input, context.events)),
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            });
+            if (!response.ok) throw new Error(`assistant responded ${response.status}`);
+            const reply: AssistantReply = await response.json();
+            if (typeof reply.text !== 'string') throw new Error('malformed reply');
+            // The model's turn isn't tracked, so 「2つ目」 can't point back past it
+            return { ...reply, context: reply.context ?? {} };
+        } catch {
+            return rulesProvider.respond(input, context);
+        }
+    },
+};
+
+// NEXT_PUBLIC_ASSISTANT_PROVIDER=llm opts in; the rules stay the default
+export const getAssistantProvider = (): AssistantProvider =>
+    process.env.NEXT_PUBLIC_ASSISTANT_PROVIDER === 'llm' ? llmProvider : rulesProvider;
@@ -0,0 +1,218 @@
+import { format } from 'date-fns';
+import type { CalendarEvent } from './calendar';
+import type { ChatHistory, ChatMessage } from './chat';
+import type { AppSettings } from './settings';
+import { loadSnapshots, parseEvents, saveSnapshot } from './storage';
+import { isSameContent } from './sync';
+import { isTask, type Task } from './tasks';
+import { isValidTimeZone } from './timezone';
+
+// ------- Bundle -------
+// Everything the app keeps for the user, as one JSON file.
+// v1: events, settings and chat history
+// v2: adds tasks
+
+const BACKUP_FORMAT = 'ai-secretary-backup';
+export const BACKUP_VERSION = 2;
+
+export interface BackupBundle {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string; // ISO string
+    events: CalendarEvent[];
+    tasks: Task[];
+    settings: AppSettings;
+    chat: ChatHistory | null;
+}
+
+// The sync token is a secret and stays on this device
+export const createBackup = (
+    events: CalendarEvent[],
+    settings: AppSettings,
+    chat: ChatHistory | null,
+    tasks: Task[] = [],
+    now: Date = new Date()
+): BackupBundle => ({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    events,
+    tasks,
+    settings: { ...settings, sync: { ...settings.sync, token: '' } },
+    chat,
+});
+
+export const backupFileName = (bundle: BackupBundle) =>
+    `ai-secretary-backup-${format(new Date(bundle.exportedAt), 'yyyyMMdd-HHmm')}.json`;
+
+// ------- Validation -------
+
+type Check = (value: unknown) => boolean;
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isTime: Check = (v) => typeof v === 'string' && /^\d{2}:\d{2}$/.test(v);
+const isIntIn = (min: number, max: number): Check => (v) => Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+
+// Keyed by the interface so a new setting can't be added without its check
+const SETTINGS_SCHEMA: Record<keyof AppSettings, Check> = {
+    defaultReminders: (v) => Array.isArray(v) && v.every(isIntIn(0, Infinity)),
+    workingHours: (v) =>
+        isObject(v) && isTime(v.start) && isTime(v.end) && Array.isArray(v.days) && v.days.every(isIntIn(0, 6)),
+    defaultEventMinutes: isIntIn(1, 24 * 60),
+    digest: (v) =>
+        isObject(v) &&
+        (v.morning === null || isTime(v.morning)) &&
+        (v.evening === null || isTime(v.evening)) &&
+        typeof v.skipEmptyDays === 'boolean',
+    sync: () => true, // never restored, see restoreSettings
+    snapshots: (v) => isObject(v) && typeof v.daily === 'boolean' && isIntIn(1, 100)(v.keep),
+    homeTimeZone: (v) => v === '' || (typeof v === 'string' && isValidTimeZone(v)),
+    categories: (v) =>
+        Array.isArray(v) &&
+        v.every(
+            (c) =>
+                isObject(c) &&
+                typeof c.id === 'string' &&
+                typeof c.name === 'string' &&
+                typeof c.color === 'string' &&
+                /^#[0-9a-f]{6}$/i.test(c.color) &&
+                typeof c.icon === 'string' &&
+                (c.hidden === undefined || typeof c.hidden === 'boolean')
+        ),
+    showRokuyo: (v) => typeof v === 'boolean',
+};
+
+const isChatMessage = (v: unknown): v is ChatMessage =>
+    isObject(v) && typeof v.id === 'string' && typeof v.text === 'string' && (v.sender === 'user' || v.sender === 'ai');
+
+// A backup read back and checked; what didn't pass is left out and described in `repairs`
+export interface ParsedBackup {
+    exportedAt: string;
+    events: CalendarEvent[];
+    tasks: Task[] | null; // null for v1 backups, which had none
+    settings: Partial<AppSettings>;
+    chat: ChatHistory | null;
+    repairs: string[];
+}
+
+/**
+ * Checks a bundle (as read from a file or a snapshot) field by field.
+ * Malformed events, settings and messages are dropped rather than failing the
+ * whole restore; throws only when it isn't a backup this version can read.
+ */
+export const parseBackup = (data: unknown): ParsedBackup => {
+    if (!isObject(data) || data.format !== BACKUP_FORMAT) throw new Error('このアプリのバックアップファイルではありません');
+    if (!Number.isInteger(data.version) || (data.version as number) < 1) throw new Error('バックアップのバージョンが不明です');
+    if ((data.version as number) > BACKUP_VERSION) {
+        throw new Error('新しいバージョンのアプリで作られたバックアップです。アプリを更新してからお試しください');
+    }
+    if (!Array.isArray(data.events)) throw new Error('予定が含まれていません');
+
+    const repairs: string[] = [];
+    const { events, rejected } = parseEvents(data.events);
+    if (rejected.length > 0) repairs.push(`読み込めない予定${rejected.length}件を除きました`);
+
+    let tasks: Task[] | null = null;
+    if (Array.isArray(data.tasks)) {
+        tasks = data.tasks.filter(isTask);
+        if (tasks.length < data.tasks.length) repairs.push(`読み込めないタスク${data.tasks.length - tasks.length}件を除きました`);
+    }
+
+    const settings: Partial<AppSettings> = {};
+    if (isObject(data.settings)) {
+        const skipped: string[] = [];
+        for (const [key, check] of Object.entries(SETTINGS_SCHEMA)) {
+            const value = data.settings[key];
+            if (value === undefined) continue;
+            if (check(value)) Object.assign(settings, { [key]: value });
+            else skipped.push(key);
+        }
+        if (skipped.length > 0) repairs.push(`読み込めない設定（${skipped.join(', ')}）は今のままにします`);
+    }
+
+    let chat: ChatHistory | null = null;
+    if (isObject(data.chat) && Array.isArray(data.chat.messages)) {
+        const messages = data.chat.messages.filter(isChatMessage);
+        if (messages.length < data.chat.messages.length) {
+            repairs.push(`読み込めないチャット${data.chat.messages.length - messages.length}件を除きました`);
+        }
+        // The context points at the old conversation's events; start fresh
+        if (messages.length > 0) chat = { messages, context: {} };
+    }
+
+    const exportedAt = typeof data.exportedAt === 'string' && !isNaN(new Date(data.exportedAt).getTime()) ? data.exportedAt : '';
+    return { exportedAt, events, tasks, settings, chat, repairs };
+};
+
+export const readBackupFile = async (file: File): Promise<ParsedBackup> => {
+    let data: unknown;
+    try {
+        data = JSON.parse(await file.text());
+    } catch {
+        throw new Error('JSONとして読み込めませんでした');
+    }
+    return parseBackup(data);
+};
+
+// ------- Restore -------
+// 'replace': the backup becomes everything (events, tasks, settings and chat)
+// 'merge': events and tasks are merged by id, the backup's version winning; the rest stays
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestorePreview {
+    added: CalendarEvent[];
+    updated: CalendarEvent[]; // the backup's version
+    removed: CalendarEvent[];
+    unchanged: number;
+}
+
+export const previewRestore = (current: CalendarEvent[], backup: ParsedBackup, mode: RestoreMode): RestorePreview => {
+    const known = new Map(current.map((e) => [e.id, e]));
+    const incoming = new Set(backup.events.map((e) => e.id));
+    const preview: RestorePreview = { added: [], updated: [], removed: [], unchanged: 0 };
+    for (const event of backup.events) {
+        const existing = known.get(event.id);
+        if (!existing) preview.added.push(event);
+        else if (isSameContent(existing, event)) preview.unchanged++;
+        else preview.updated.push(event);
+    }
+    if (mode === 'replace') preview.removed = current.filter((e) => !incoming.has(e.id));
+    else preview.unchanged += current.filter((e) => !incoming.has(e.id)).length;
+    return preview;
+};
+
+export const restoreEvents = (current: CalendarEvent[], backup: ParsedBackup, mode: RestoreMode): CalendarEvent[] => {
+    if (mode === 'replace') return backup.events;
+    const incoming = new Map(backup.events.map((e) => [e.id, e]));
+    const kept = current.map((e) => incoming.get(e.id) ?? e);
+    const known = new Set(current.map((e) => e.id));
+    return [...kept, ...backup.events.filter((e) => !known.has(e.id))];
+};
+
+// A v1 backup leaves the tasks as they are
+export const restoreTasks = (current: Task[], backup: ParsedBackup, mode: RestoreMode): Task[] => {
+    if (!backup.tasks) return current;
+    if (mode === 'replace') return backup.tasks;
+    const incoming = new Map(backup.tasks.map((t) => [t.id, t]));
+    const known = new Set(current.map((t) => t.id));
+    return [...current.map((t) => incoming.get(t.id) ?? t), ...backup.tasks.filter((t) => !known.has(t.id))];
+};
+
+// Settings that failed validation, and this device's sync setup, stay as they are
+export const restoreSettings = (current: AppSettings, backup: ParsedBackup): AppSettings => ({
+    ...current,
+    ...backup.settings,
+    sync: current.sync,
+});
+
+// ------- Snapshots -------
+
+/** Saves one snapshot per day; later calls on the same day do nothing. */
+export const takeDailySnapshot = async (bundle: BackupBundle, keep: number) => {
+    const snapshots = await loadSnapshots();
+    const today = format(new Date(bundle.exportedAt), 'yyyy-MM-dd');
+    const latest = snapshots[snapshots.length - 1];
+    if (latest && format(new Date(latest.exportedAt), 'yyyy-MM-dd') === today) return;
+    await saveSnapshot(bundle, keep);
+};
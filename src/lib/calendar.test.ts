@@ -0,0 +1,226 @@
+import { format } from 'date-fns';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    findFreeSlots,
+    parseAIResponse,
+    parseEventInput,
+    suggestSlots,
+    updateOccurrence,
+    type CalendarEvent,
+    type TimeSlot,
+} from './calendar';
+import { DEFAULT_SETTINGS } from './settings';
+
+// A Monday
+const BASE = new Date(2026, 9, 19, 9, 0);
+
+const local = (iso: string | undefined) => (iso ? format(new Date(iso), 'yyyy-MM-dd HH:mm') : undefined);
+
+describe('parseEventInput', () => {
+    it('reads a relative day, a time and a title', () => {
+        const parsed = parseEventInput('明日15時に歯医者', BASE);
+        expect(parsed?.event.title).toBe('歯医者');
+        expect(local(parsed?.event.date)).toBe('2026-10-20 15:00');
+        expect(parsed?.hasDate).toBe(true);
+        expect(parsed?.hasTime).toBe(true);
+    });
+
+    it('reads 来週X曜, an HH:mm time and a location memo', () => {
+        const parsed = parseEventInput('来週金曜 19:30 飲み会 渋谷で', BASE);
+        expect(parsed?.event).toMatchObject({ title: '飲み会', description: '渋谷で' });
+        expect(local(parsed?.event.date)).toBe('2026-10-30 19:30');
+    });
+
+    it('reads N日後 and 朝/午後 times', () => {
+        expect(local(parseEventInput('3日後の朝9時 会議', BASE)?.event.date)).toBe('2026-10-22 09:00');
+        expect(local(parseEventInput('明後日 午後3時 面談', BASE)?.event.date)).toBe('2026-10-21 15:00');
+    });
+
+    it('reads a time range, taking a bare end hour as afternoon', () => {
+        const parsed = parseEventInput('明日午後3時から5時 打ち合わせ', BASE);
+        expect(local(parsed?.event.date)).toBe('2026-10-20 15:00');
+        expect(local(parsed?.event.end)).toBe('2026-10-20 17:00');
+    });
+
+    it('reads 月末 and 終日', () => {
+        const parsed = parseEventInput('月末 終日 棚卸し', BASE);
+        expect(parsed?.event).toMatchObject({ title: '棚卸し', allDay: true });
+        expect(local(parsed?.event.date)).toBe('2026-10-31 00:00');
+    });
+
+    it('reads 来月末 and 再来月末 without leaving the prefix in the title', () => {
+        const parsed = parseEventInput('来月末 19時 飲み会', BASE);
+        expect(parsed?.event.title).toBe('飲み会');
+        expect(local(parsed?.event.date)).toBe('2026-11-30 19:00');
+        expect(local(parseEventInput('再来月末 10時 締め切り', BASE)?.event.date)).toBe('2026-12-31 10:00');
+    });
+
+    it('reads 午前12時 and 夜12時 as midnight, 午後12時 as noon', () => {
+        expect(local(parseEventInput('明日午前12時 メンテナンス', BASE)?.event.date)).toBe('2026-10-20 00:00');
+        expect(local(parseEventInput('明日夜12時 メンテナンス', BASE)?.event.date)).toBe('2026-10-20 00:00');
+        expect(local(parseEventInput('明日午後12時 ランチ', BASE)?.event.date)).toBe('2026-10-20 12:00');
+    });
+
+    it('takes a past month-day as next year', () => {
+        expect(local(parseEventInput('1月5日 10時 仕事始め', BASE)?.event.date)).toBe('2027-01-05 10:00');
+    });
+
+    it('returns null without a date or time, or without a title', () => {
+        expect(parseEventInput('歯医者', BASE)).toBeNull();
+        expect(parseEventInput('明日15時', BASE)).toBeNull();
+    });
+});
+
+describe('parseAIResponse', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(BASE);
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('adds an event given a time', () => {
+        const reply = parseAIResponse('明日15時に歯医者', []);
+        expect(reply.action?.type).toBe('add');
+        expect(reply.action?.event?.title).toBe('歯医者');
+    });
+
+    it('adds an event given an add verb, even without a time', () => {
+        const reply = parseAIResponse('明日に会議の予定を追加', []);
+        expect(reply.action?.type).toBe('add');
+        expect(reply.action?.event?.title).toBe('会議');
+    });
+
+    it('takes 「…を入れて」 as an add and leaves it out of the title', () => {
+        const reply = parseAIResponse('明日10時に会議を入れて', []);
+        expect(reply.action?.type).toBe('add');
+        expect(reply.action?.event?.title).toBe('会議');
+        expect(parseAIResponse('明日10時に会議を入れてください', []).action?.event?.title).toBe('会議');
+    });
+
+    it('adds 「来月末に飲み会を追加」 on the last day of next month', () => {
+        const reply = parseAIResponse('来月末に飲み会を追加', []);
+        expect(reply.action?.event?.title).toBe('飲み会');
+        expect(local(reply.action?.event?.date)?.slice(0, 10)).toBe('2026-11-30');
+    });
+
+    it.each(['明日10時の予定は？', '明日10時に何がある？', '明日10時って何かある', '明日10時の予定を教えて'])(
+        'answers 「%s」 as a question instead of adding',
+        (input) => {
+            const reply = parseAIResponse(input, []);
+            expect(reply.action?.type).not.toBe('add');
+            expect(reply.text).toContain('10月20日');
+        }
+    );
+
+    it('asks before moving 「明日のジムを19時に変更」 and moves it on 「はい」', () => {
+        const gym: CalendarEvent = { id: 'g', title: 'ジム', date: new Date(2026, 9, 20, 7).toISOString(), end: new Date(2026, 9, 20, 8).toISOString() };
+        const asked = parseAIResponse('明日のジムを19時に変更', [gym]);
+        expect(asked.action).toBeUndefined();
+        expect(asked.text).toContain('変更しますか');
+        expect(asked.context?.pending?.action.event).toMatchObject({ id: 'g' });
+
+        const done = parseAIResponse('はい', [gym], asked.context);
+        expect(done.action?.type).toBe('update');
+        expect(local(done.action?.event?.date)).toBe('2026-10-20 19:00');
+        expect(local(done.action?.event?.end)).toBe('2026-10-20 20:00');
+        expect(done.context?.lastEvents).toEqual([{ id: 'g', date: done.action?.event?.date }]);
+        expect(done.context?.pending).toBeUndefined();
+    });
+
+    it('leaves the event alone on 「いいえ」', () => {
+        const gym: CalendarEvent = { id: 'g', title: 'ジム', date: new Date(2026, 9, 20, 7).toISOString() };
+        const asked = parseAIResponse('明日のジムを19時に変更', [gym]);
+        const declined = parseAIResponse('いいえ', [gym], asked.context);
+        expect(declined.action).toBeUndefined();
+        expect(declined.context?.lastEvents).toEqual([{ id: 'g', date: gym.date }]);
+    });
+});
+
+describe('updateOccurrence', () => {
+    const series: CalendarEvent = {
+        id: 's',
+        title: '定例',
+        date: '2026-10-19T01:00:00.000Z',
+        end: '2026-10-19T02:00:00.000Z',
+        recurrence: { frequency: 'weekly' },
+    };
+    const second = { ...series, date: '2026-10-26T01:00:00.000Z', end: '2026-10-26T02:00:00.000Z' };
+
+    it('renames one occurrence of a series without touching the rest', () => {
+        const { events, moved } = updateOccurrence([series], second, { date: second.date, end: second.end, title: '定例（拡大版）' });
+        expect(moved).toMatchObject({ id: 's_2026-10-26', title: '定例（拡大版）', date: second.date });
+        expect(moved.recurrence).toBeUndefined();
+        expect(events.find((e) => e.id === 's')).toMatchObject({ title: '定例', recurrence: { exdates: ['2026-10-26'] } });
+    });
+
+    it('moves and renames in one change', () => {
+        const { moved } = updateOccurrence([series], second, {
+            date: '2026-10-27T05:00:00.000Z',
+            end: '2026-10-27T06:00:00.000Z',
+            title: '定例（振替）',
+            description: '会議室B',
+        });
+        expect(moved).toMatchObject({ date: '2026-10-27T05:00:00.000Z', title: '定例（振替）', description: '会議室B' });
+    });
+});
+
+describe('findFreeSlots', () => {
+    // 2026-10-20 is a Tuesday; working hours are weekdays 9:00–18:00, events without an end last 60 minutes
+    const at = (day: number, hhmm: string) => {
+        const [h, m] = hhmm.split(':').map(Number);
+        return new Date(2026, 9, day, h, m);
+    };
+    const timed = (id: string, day: number, start: string, end?: string, endDay = day): CalendarEvent => ({
+        id,
+        title: id,
+        date: at(day, start).toISOString(),
+        end: end ? at(endDay, end).toISOString() : undefined,
+    });
+    const show = (slots: TimeSlot[]) => slots.map((s) => `${format(s.start, 'd HH:mm')}–${format(s.end, 'd HH:mm')}`);
+    const free = (events: CalendarEvent[], fromDay: number, toDay = fromDay, notBefore?: Date) =>
+        findFreeSlots(events, at(fromDay, '00:00'), at(toDay, '00:00'), { ...DEFAULT_SETTINGS, notBefore });
+
+    it('lists the openings between events within working hours, on working days only', () => {
+        const events = [timed('a', 20, '10:00', '11:00'), timed('b', 20, '14:00', '15:30'), timed('early', 20, '07:00', '08:00')];
+        expect(show(free(events, 20))).toEqual(['20 09:00–20 10:00', '20 11:00–20 14:00', '20 15:30–20 18:00']);
+        expect(free([], 24, 25)).toEqual([]);
+    });
+
+    it('blocks the default length for an event without an end', () => {
+        expect(show(free([timed('a', 20, '13:00')], 20))).toEqual(['20 09:00–20 13:00', '20 14:00–20 18:00']);
+        // One from before the day starts still reaches into it
+        expect(show(free([timed('a', 20, '08:30')], 20))).toEqual(['20 09:30–20 18:00']);
+    });
+
+    it('merges overlapping events and counts multi-day ones on every day they cover', () => {
+        const overlapping = [timed('a', 20, '10:00', '12:00'), timed('b', 20, '11:00', '13:00'), timed('c', 20, '11:30', '12:00')];
+        expect(show(free(overlapping, 20))).toEqual(['20 09:00–20 10:00', '20 13:00–20 18:00']);
+
+        const trip = timed('trip', 19, '16:00', '10:00', 21);
+        expect(show(free([trip], 19, 21))).toEqual(['19 09:00–19 16:00', '21 10:00–21 18:00']);
+    });
+
+    it('ignores all-day events, skips openings shorter than minMinutes and hours already gone', () => {
+        const events = [{ ...timed('holiday', 20, '00:00'), allDay: true }, timed('a', 20, '09:20', '18:00')];
+        expect(free(events, 20)).toEqual([]);
+        expect(show(free([], 20, 20, at(20, '16:05')))).toEqual(['20 16:15–20 18:00']);
+    });
+
+    describe('suggestSlots', () => {
+        const slots = free([timed('a', 20, '10:00', '11:00'), timed('b', 20, '14:00', '18:00')], 20, 21);
+
+        it('offers nothing when the event is longer than every opening', () => {
+            const busy = free([timed('a', 20, '12:00', '13:00'), timed('b', 20, '15:00', '16:00')], 20);
+            expect(show(busy)).toEqual(['20 09:00–20 12:00', '20 13:00–20 15:00', '20 16:00–20 18:00']);
+            expect(suggestSlots(busy, 4 * 60)).toEqual([]);
+        });
+
+        it('takes the earliest fit of each day first, then later fits, listed in date order', () => {
+            expect(show(suggestSlots(slots, 60))).toEqual(['20 09:00–20 10:00', '20 11:00–20 12:00', '21 09:00–21 10:00']);
+            expect(show(suggestSlots(slots, 60, 2))).toEqual(['20 09:00–20 10:00', '21 09:00–21 10:00']);
+            expect(show(suggestSlots(slots, 120, 2))).toEqual(['20 11:00–20 13:00', '21 09:00–21 11:00']);
+        });
+    });
+});
@@ -1,12 +1,32 @@
-import { startOfMonth, endOfMonth, eachDayOfInterval, format, isSameDay, startOfWeek, endOfWeek } from 'date-fns';
+import { startOfMonth, endOfMonth, eachDayOfInterval, format, startOfWeek, endOfWeek, addDays, addMonths, startOfDay, endOfDay, isSameDay, differenceInMinutes, differenceInCalendarDays, addMinutes, parseISO } from 'date-fns';
 import { ja } from 'date-fns/locale';
+import { expandEvents, describeRecurrence, getEventSpan, occurrenceKey, toDateKey, type RecurrenceRule } from './recurrence';
+import type { CalendarView } from './timeline';
+import { searchEvents, normalizeForSearch } from './search';
+import { formatEventRef, type ConversationContext, type EventRef } from './chat';
+import { DEFAULT_SETTINGS, type SchedulingSettings, type WorkingHours } from './settings';
+import { describeTimeZone, deviceTimeZone, isSameOffset, toZonedTime } from './timezone';
+import { findCategory, findCategoryIn, type Category } from './categories';
+import { HOLIDAY_YEARS, describeHoliday, getHoliday, getHolidays, getHolidaysBetween, getHolidaysInMonth, type Holiday } from './holidays';
+import { TASK_LIST_PATTERN, describeTaskLine, isOverdue, parseTaskCommand, sortTasks, type Task } from './tasks';
 
 export interface CalendarEvent {
     id: string;
     title: string;
     date: string; // ISO string for serialization
+    end?: string; // ISO string; for all-day events, the last day
+    allDay?: boolean;
+    timeZone?: string; // IANA zone the times were set in; unset = wherever the device is
     description?: string;
-    color?: string;
+    color?: string; // EVENT_COLORS name or #rrggbb; unset = the category's color
+    categoryId?: string;
+    tags?: string[];
+    recurrence?: RecurrenceRule;
+    reminders?: number[]; // minutes before start; unset = default, [] = none
+    doneDates?: string[]; // yyyy-MM-dd of occurrences marked 完了
+    readOnly?: boolean; // events from subscribed feeds
+    feedId?: string;
+    updatedAt?: string; // ISO string of the last local change, for sync
 }
 
 export const EVENT_COLORS = [
@@ -17,146 +37,1080 @@ export const EVENT_COLORS = [
     { name: 'orange', value: '#f59e0b' },
 ];
 
+// The event's own color (a name above or a custom #rrggbb), else its category's
+export const getEventColor = (event: Pick<CalendarEvent, 'color' | 'categoryId'>, categories: Category[] = []) => {
+    if (event.color?.startsWith('#')) return event.color;
+    const named = EVENT_COLORS.find((c) => c.name === event.color);
+    return named?.value ?? findCategory(categories, event.categoryId)?.color ?? EVENT_COLORS[0].value;
+};
+
 export const getMonthDays = (date: Date) => {
     const start = startOfWeek(startOfMonth(date), { weekStartsOn: 0 });
     const end = endOfWeek(endOfMonth(date), { weekStartsOn: 0 });
     return eachDayOfInterval({ start, end });
 };
 
+// Recurring events are expanded into the occurrences that fall on this day
 export const filterEventsByDate = (events: CalendarEvent[], date: Date) => {
-    return events.filter(event => isSameDay(new Date(event.date), date));
+    return expandEvents(events, startOfDay(date), endOfDay(date));
 };
 
 export const formatEventTime = (dateStr: string) => {
     return format(new Date(dateStr), 'HH:mm');
 };
 
-// LocalStorage persistence
-const STORAGE_KEY = 'ai-secretary-events';
+// 「14:00–15:30」, 「終日」 or just the start time when there is no end; on the device's clock unless a zone is given
+export const formatEventRange = (event: Pick<CalendarEvent, 'date' | 'end' | 'allDay'>, zone?: string) => {
+    const toWall = (iso: string) => (zone ? toZonedTime(new Date(iso), zone) : new Date(iso));
+    const start = toWall(event.date);
+    if (event.allDay) {
+        if (!event.end || isSameDay(start, toWall(event.end))) return '終日';
+        return `終日（${format(start, 'M/d')}–${format(toWall(event.end), 'M/d')}）`;
+    }
+    if (!event.end) return format(start, 'HH:mm');
+    const end = toWall(event.end);
+    if (isSameDay(start, end)) return `${format(start, 'HH:mm')}–${format(end, 'HH:mm')}`;
+    return `${format(start, 'M/d HH:mm')}–${format(end, 'M/d HH:mm')}`;
+};
+
+/**
+ * 「10:00–11:00 New York (GMT-4)」: the times in the event's own zone, or the
+ * home zone for events without one, when that clock reads differently from
+ * the device's. Null when there is nothing to add.
+ */
+export const formatInEventZone = (event: Pick<CalendarEvent, 'date' | 'end' | 'allDay' | 'timeZone'>, homeZone = '') => {
+    const zone = event.timeZone ?? (homeZone || undefined);
+    if (!zone || event.allDay) return null;
+    const start = new Date(event.date);
+    if (isSameOffset(zone, deviceTimeZone(), start)) return null;
+    return `${formatEventRange(event, zone)} ${describeTimeZone(zone, start)}`;
+};
+
+export const formatDuration = (minutes: number) => {
+    const h = Math.floor(minutes / 60);
+    const m = minutes % 60;
+    if (h > 0 && m > 0) return `${h}時間${m}分`;
+    if (h > 0) return `${h}時間`;
+    return `${m}分`;
+};
+
+// Length of a timed event in minutes, or null for all-day events and instants
+export const getEventDurationMinutes = (event: Pick<CalendarEvent, 'date' | 'end' | 'allDay'>) => {
+    if (event.allDay || !event.end) return null;
+    return differenceInMinutes(new Date(event.end), new Date(event.date));
+};
+
+export const isMultiDayEvent = (event: CalendarEvent) => {
+    return !!event.end && !isSameDay(new Date(event.date), new Date(event.end));
+};
+
+// All-day and multi-day events first (so spans line up across cells), then by start time
+export const sortDayEvents = (events: CalendarEvent[]) => {
+    const rank = (e: CalendarEvent) => (e.allDay || isMultiDayEvent(e) ? 0 : 1);
+    return [...events].sort(
+        (a, b) =>
+            rank(a) - rank(b) ||
+            new Date(a.date).getTime() - new Date(b.date).getTime() ||
+            a.id.localeCompare(b.id)
+    );
+};
+
+/**
+ * Free time between consecutive timed events of one day. Events without an
+ * end count as instants; gaps shorter than `minMinutes` are ignored.
+ */
+export const findFreeGaps = (dayEvents: CalendarEvent[], minMinutes = 30): { start: Date; end: Date }[] => {
+    const timed = dayEvents
+        .filter((e) => !e.allDay)
+        .map((e) => ({ start: new Date(e.date), end: new Date(e.end ?? e.date) }))
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
 
-export const loadEvents = (): CalendarEvent[] => {
-    if (typeof window === 'undefined') return [];
-    try {
-        const data = localStorage.getItem(STORAGE_KEY);
-        if (data) return JSON.parse(data);
-    } catch {
-        // ignore
+    const gaps: { start: Date; end: Date }[] = [];
+    let cursor: Date | null = null;
+    for (const e of timed) {
+        if (cursor && differenceInMinutes(e.start, cursor) >= minMinutes) {
+            gaps.push({ start: cursor, end: e.start });
+        }
+        if (!cursor || e.end > cursor) cursor = e.end;
     }
-    return getDefaultEvents();
+    return gaps;
 };
 
-export const saveEvents = (events: CalendarEvent[]) => {
-    if (typeof window === 'undefined') return;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(events));
+// One day's events as chat lines, with durations and the free time between them
+export const describeDayEvents = (dayEvents: CalendarEvent[]) => {
+    const lines = sortDayEvents(dayEvents).map((e) => {
+        const minutes = getEventDurationMinutes(e);
+        const duration = minutes ? `（${formatDuration(minutes)}）` : '';
+        return `📌 ${formatEventRange(e)} ${formatEventRef(e)}${duration}${e.description ? ` - ${e.description}` : ''}`;
+    });
+
+    const gaps = findFreeGaps(dayEvents);
+    if (gaps.length > 0) {
+        lines.push('', '🕊 空き時間：');
+        for (const gap of gaps) {
+            const minutes = differenceInMinutes(gap.end, gap.start);
+            lines.push(`  ・${format(gap.start, 'HH:mm')}–${format(gap.end, 'HH:mm')}（${formatDuration(minutes)}）`);
+        }
+    }
+    return lines.join('\n');
 };
 
-// Default events for first-time users
-const getDefaultEvents = (): CalendarEvent[] => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+// The 「今日の予定」 reply, shared by the chat and the daily digest notifications
+export const summarizeDay = (dayEvents: CalendarEvent[], day: Date, label = '予定') => {
+    const dayStr = format(day, 'M月d日', { locale: ja });
+    if (dayEvents.length === 0) return `${dayStr}の${label}は特にありません`;
+    const first = dayEvents
+        .filter((e) => !e.allDay && isSameDay(new Date(e.date), day))
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())[0];
+    const headline = `${dayStr}の${label}は${dayEvents.length}件です！${first ? `最初の予定は${formatEventTime(first.date)}からです。` : ''}`;
+    return `${headline}\n\n${describeDayEvents(dayEvents)}`;
+};
 
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+export const isEventDone = (event: CalendarEvent) => {
+    return !!event.doneDates?.includes(occurrenceKey(event, new Date(event.date)));
+};
 
-    const nextWeek = new Date(today);
-    nextWeek.setDate(nextWeek.getDate() + 5);
+export const markEventDone = (event: CalendarEvent, occurrenceDate: Date): CalendarEvent => {
+    const doneDates = Array.from(new Set([...(event.doneDates ?? []), occurrenceKey(event, occurrenceDate)]));
+    return { ...event, doneDates };
+};
 
-    return [
-        {
-            id: crypto.randomUUID(),
-            title: 'ランチミーティング',
-            date: new Date(today.getFullYear(), today.getMonth(), today.getDate(), 12, 0).toISOString(),
-            description: '佐藤さんと渋谷で',
-            color: 'blue',
-        },
-        {
-            id: crypto.randomUUID(),
-            title: 'ジム',
-            date: new Date(today.getFullYear(), today.getMonth(), today.getDate(), 18, 0).toISOString(),
-            description: '背中トレーニング',
-            color: 'green',
-        },
-        {
-            id: crypto.randomUUID(),
-            title: '美容院',
-            date: new Date(tomorrow.getFullYear(), tomorrow.getMonth(), tomorrow.getDate(), 11, 0).toISOString(),
-            description: '11:00予約',
-            color: 'purple',
-        },
-        {
-            id: crypto.randomUUID(),
-            title: 'プロジェクト会議',
-            date: new Date(nextWeek.getFullYear(), nextWeek.getMonth(), nextWeek.getDate(), 14, 0).toISOString(),
-            description: 'Zoom会議',
-            color: 'red',
+// ------- Free Time -------
+
+export interface TimeSlot {
+    start: Date;
+    end: Date;
+}
+
+export interface FreeSlotOptions extends SchedulingSettings {
+    minMinutes?: number; // shorter openings are left out
+    notBefore?: Date; // usually now, so hours already gone aren't offered
+}
+
+// Suggested start times fall on this grid
+const SLOT_STEP_MINUTES = 15;
+
+const atTime = (day: Date, hhmm: string) => {
+    const [hours, minutes] = hhmm.split(':').map(Number);
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+};
+
+const ceilToStep = (date: Date) => {
+    const step = SLOT_STEP_MINUTES * 60 * 1000;
+    return new Date(Math.ceil(date.getTime() / step) * step);
+};
+
+/**
+ * Open time within working hours on each day from `from` to `to`. Timed
+ * events block their span, or `defaultEventMinutes` when they have no end;
+ * all-day events don't block, the same as for conflicts.
+ */
+export const findFreeSlots = (
+    events: CalendarEvent[],
+    from: Date,
+    to: Date,
+    { workingHours, defaultEventMinutes, minMinutes = 30, notBefore }: FreeSlotOptions
+): TimeSlot[] => {
+    const slots: TimeSlot[] = [];
+    for (const day of eachDayOfInterval({ start: startOfDay(from), end: startOfDay(to) })) {
+        if (!workingHours.days.includes(day.getDay())) continue;
+        const dayEnd = atTime(day, workingHours.end);
+        let cursor = atTime(day, workingHours.start);
+        if (notBefore && notBefore > cursor) cursor = ceilToStep(notBefore);
+        if (cursor >= dayEnd) continue;
+
+        // Widened by the default length so an earlier event without an end still counts
+        const busy = expandEvents(events, addMinutes(cursor, -defaultEventMinutes), dayEnd)
+            .filter((e) => !e.allDay)
+            .map((e) => {
+                const start = new Date(e.date);
+                return { start, end: e.end ? new Date(e.end) : addMinutes(start, defaultEventMinutes) };
+            })
+            .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+        for (const b of busy) {
+            if (cursor >= dayEnd) break;
+            const gapEnd = b.start < dayEnd ? b.start : dayEnd;
+            if (differenceInMinutes(gapEnd, cursor) >= minMinutes) slots.push({ start: cursor, end: gapEnd });
+            if (b.end > cursor) cursor = b.end;
+        }
+        if (differenceInMinutes(dayEnd, cursor) >= minMinutes) slots.push({ start: cursor, end: dayEnd });
+    }
+    return slots;
+};
+
+/**
+ * Up to `count` times for a `minutes`-long event within the free slots: the
+ * earliest fit of each day first so the options spread over the range, then
+ * the later fits in date order.
+ */
+export const suggestSlots = (slots: TimeSlot[], minutes: number, count = 3): TimeSlot[] => {
+    const fits: TimeSlot[] = [];
+    for (const slot of slots) {
+        let start = ceilToStep(slot.start);
+        while (addMinutes(start, minutes) <= slot.end) {
+            fits.push({ start, end: addMinutes(start, minutes) });
+            start = ceilToStep(addMinutes(start, minutes));
+        }
+    }
+    const firstOfDay = fits.filter((f, i) => i === 0 || !isSameDay(f.start, fits[i - 1].start));
+    return [...firstOfDay, ...fits.filter((f) => !firstOfDay.includes(f))]
+        .slice(0, count)
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+// 「平日 9:00–18:00」
+export const describeWorkingHours = ({ start, end, days }: WorkingHours) => {
+    const sorted = [...days].sort();
+    const label =
+        sorted.join() === '1,2,3,4,5'
+            ? '平日'
+            : sorted.length === 7
+              ? '毎日'
+              : sorted.map((d) => WEEKDAY_CHARS[d]).join('・');
+    return `${label} ${start.replace(/^0/, '')}–${end.replace(/^0/, '')}`;
+};
+
+// ------- Rescheduling -------
+
+// Instants still block some time when checking for conflicts
+const CONFLICT_MIN_SPAN = 30 * 60 * 1000;
+
+/**
+ * Gives one occurrence a new start (and end), and optionally a new title or
+ * memo. An occurrence of a recurring event is split off the series as a
+ * one-off; the rest of the series stays.
+ */
+export const updateOccurrence = (
+    events: CalendarEvent[],
+    occurrence: CalendarEvent,
+    changes: Pick<CalendarEvent, 'date' | 'end'> & Partial<Pick<CalendarEvent, 'title' | 'description'>>
+): { events: CalendarEvent[]; moved: CalendarEvent } => {
+    const key = occurrenceKey(occurrence, new Date(occurrence.date));
+    const moved: CalendarEvent = {
+        ...occurrence,
+        ...changes,
+        doneDates: occurrence.doneDates?.filter((d) => d !== key),
+    };
+    const series = events.find((e) => e.id === occurrence.id);
+    if (!series?.recurrence) {
+        return { events: events.map((e) => (e.id === moved.id ? moved : e)), moved };
+    }
+
+    const rule = series.recurrence;
+    const detached: CalendarEvent = { ...moved, id: `${series.id}_${key}`, recurrence: undefined, doneDates: undefined };
+    const exdates = Array.from(new Set([...(rule.exdates ?? []), key]));
+    return {
+        events: [...events.map((e) => (e.id === series.id ? { ...series, recurrence: { ...rule, exdates } } : e)), detached],
+        moved: detached,
+    };
+};
+
+// Moves an occurrence to another day, keeping its time of day and length
+export const rescheduleOccurrence = (events: CalendarEvent[], occurrence: CalendarEvent, targetDay: Date) => {
+    const offset = differenceInCalendarDays(targetDay, new Date(occurrence.date));
+    const shift = (iso: string) => addDays(new Date(iso), offset).toISOString();
+    return updateOccurrence(events, occurrence, {
+        date: shift(occurrence.date),
+        end: occurrence.end ? shift(occurrence.end) : undefined,
+    });
+};
+
+// Timed events that overlap `target`; all-day events never conflict
+export const findConflicts = (events: CalendarEvent[], target: CalendarEvent): CalendarEvent[] => {
+    if (target.allDay) return [];
+    const start = new Date(target.date).getTime();
+    const end = start + (getEventSpan(target) || CONFLICT_MIN_SPAN);
+    return expandEvents(events, new Date(start), new Date(end)).filter((e) => {
+        if (e.id === target.id || e.allDay) return false;
+        const eStart = new Date(e.date).getTime();
+        return eStart < end && eStart + (getEventSpan(e) || CONFLICT_MIN_SPAN) > start;
+    });
+};
+
+// ------- Natural-language Event Parsing -------
+
+export interface ParsedEventInput {
+    event: Pick<CalendarEvent, 'title' | 'date' | 'end' | 'allDay' | 'description' | 'recurrence'>;
+    hasDate: boolean;
+    hasTime: boolean;
+}
+
+const WEEKDAY_CHARS = ['日', '月', '火', '水', '木', '金', '土'];
+const DEFAULT_EVENT_TIME = { hours: 12, minutes: 0 };
+
+// Full-width digits and separators are common with Japanese IMEs
+const toHalfWidth = (s: string) =>
+    s.replace(/[０-９：／]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0xfee0));
+
+const parseDatePart = (input: string, base: Date): { date: Date; match: string } | null => {
+    const today = startOfDay(base);
+    let m: RegExpMatchArray | null;
+
+    if ((m = input.match(/(\d+)日後/))) {
+        return { date: addDays(today, Number(m[1])), match: m[0] };
+    }
+    if ((m = input.match(/明後日|あさって/))) {
+        return { date: addDays(today, 2), match: m[0] };
+    }
+    if ((m = input.match(/明日|あした/))) {
+        return { date: addDays(today, 1), match: m[0] };
+    }
+    if ((m = input.match(/今日|本日/))) {
+        return { date: today, match: m[0] };
+    }
+    // 来月末 before bare 月末, so the month prefix goes with the match instead of staying in the title
+    if ((m = input.match(/(再来月|来月|今月)末|月末/))) {
+        const monthOffset = m[1] === '再来月' ? 2 : m[1] === '来月' ? 1 : 0;
+        return { date: startOfDay(endOfMonth(addMonths(today, monthOffset))), match: m[0] };
+    }
+    if ((m = input.match(/(再来週|来週|今週)?の?([日月火水木金土])曜日?/))) {
+        const weekday = WEEKDAY_CHARS.indexOf(m[2]);
+        if (m[1]) {
+            const weekOffset = m[1] === '再来週' ? 2 : m[1] === '来週' ? 1 : 0;
+            const weekStart = startOfWeek(today, { weekStartsOn: 0 });
+            return { date: addDays(weekStart, weekOffset * 7 + weekday), match: m[0] };
+        }
+        // Bare weekday: the next occurrence, today included
+        const diff = (weekday - today.getDay() + 7) % 7;
+        return { date: addDays(today, diff), match: m[0] };
+    }
+    if ((m = input.match(/(\d{1,2})月(\d{1,2})日/)) || (m = input.match(/(\d{1,2})\/(\d{1,2})/))) {
+        const date = new Date(today.getFullYear(), Number(m[1]) - 1, Number(m[2]));
+        // A date already passed this year means next year
+        if (date < today) date.setFullYear(date.getFullYear() + 1);
+        return { date, match: m[0] };
+    }
+    return null;
+};
+
+// 「毎週月曜」「毎月25日」: the rule plus the date of its first occurrence
+const parseRecurrencePart = (input: string, base: Date): { rule: RecurrenceRule; date: Date; match: string } | null => {
+    const today = startOfDay(base);
+    let m: RegExpMatchArray | null;
+
+    if ((m = input.match(/毎週([日月火水木金土])曜日?/))) {
+        const weekday = WEEKDAY_CHARS.indexOf(m[1]);
+        const diff = (weekday - today.getDay() + 7) % 7;
+        return { rule: { frequency: 'weekly', weekdays: [weekday] }, date: addDays(today, diff), match: m[0] };
+    }
+    if ((m = input.match(/毎月(\d{1,2})日/))) {
+        const day = Number(m[1]);
+        let date = new Date(today.getFullYear(), today.getMonth(), day);
+        if (date < today) date = new Date(today.getFullYear(), today.getMonth() + 1, day);
+        return { rule: { frequency: 'monthly' }, date, match: m[0] };
+    }
+    if ((m = input.match(/毎年(\d{1,2})月(\d{1,2})日/))) {
+        const date = new Date(today.getFullYear(), Number(m[1]) - 1, Number(m[2]));
+        if (date < today) date.setFullYear(date.getFullYear() + 1);
+        return { rule: { frequency: 'yearly' }, date, match: m[0] };
+    }
+    if ((m = input.match(/毎日/))) {
+        return { rule: { frequency: 'daily' }, date: today, match: m[0] };
+    }
+    return null;
+};
+
+const parseTimePart = (input: string): { hours: number; minutes: number; match: string } | null => {
+    let m: RegExpMatchArray | null;
+
+    if ((m = input.match(/(\d{1,2}):(\d{2})/))) {
+        const hours = Number(m[1]);
+        const minutes = Number(m[2]);
+        if (hours > 23 || minutes > 59) return null;
+        return { hours, minutes, match: m[0] };
+    }
+    if ((m = input.match(/正午/))) {
+        return { hours: 12, minutes: 0, match: m[0] };
+    }
+    if ((m = input.match(/(午前|午後|朝|昼|夕方|夜)?の?(\d{1,2})時(?:(\d{1,2})分|(半))?/))) {
+        let hours = Number(m[2]);
+        const minutes = m[4] ? 30 : m[3] ? Number(m[3]) : 0;
+        const isAfternoon = m[1] === '午後' || m[1] === '昼' || m[1] === '夕方' || m[1] === '夜';
+        if (isAfternoon && hours < 12) hours += 12;
+        // 午前12時 and 夜12時 are midnight; 午後12時 stays noon
+        if ((m[1] === '午前' || m[1] === '夜') && hours === 12) hours = 0;
+        if (hours > 23 || minutes > 59) return null;
+        return { hours, minutes, match: m[0] };
+    }
+    return null;
+};
+
+const ADD_COMMAND_PATTERN = /(の)?予定(を)?(追加|入れて|登録)(して)?(ください|お願い(します)?)?|を?(追加|登録|入れて)(して)?(ください|お願い(します)?)?/g;
+
+/**
+ * Extracts a date, time, title and memo from free text such as
+ * 「明日15時に歯医者」 or 「来週金曜 19:30 飲み会 渋谷で」.
+ * Returns null when there is no title or neither a date nor a time.
+ */
+export const parseEventInput = (input: string, base: Date = new Date()): ParsedEventInput | null => {
+    let rest = toHalfWidth(input);
+
+    const recurrencePart = parseRecurrencePart(rest, base);
+    const datePart = recurrencePart ?? parseDatePart(rest, base);
+    if (datePart) rest = rest.replace(datePart.match, ' ');
+
+    const timePart = parseTimePart(rest);
+    let endPart: ReturnType<typeof parseTimePart> = null;
+    if (timePart) {
+        // 「14時から15時半」「10:00〜11:30」
+        const index = rest.indexOf(timePart.match);
+        const tail = rest.slice(index + timePart.match.length);
+        const separator = tail.match(/^\s*(から|〜|~|-|–|ー)\s*/);
+        const candidate = separator ? parseTimePart(tail.slice(separator[0].length)) : null;
+        if (separator && candidate && tail.slice(separator[0].length).startsWith(candidate.match)) {
+            endPart = candidate;
+            rest = `${rest.slice(0, index)} ${tail.slice(separator[0].length + candidate.match.length)}`;
+        } else {
+            rest = rest.replace(timePart.match, ' ');
+        }
+    }
+
+    const allDay = !timePart && rest.includes('終日');
+    if (allDay) rest = rest.replace('終日', ' ');
+
+    if (!datePart && !timePart) return null;
+
+    rest = rest.replace(ADD_COMMAND_PATTERN, ' ');
+
+    const titleParts: string[] = [];
+    const memoParts: string[] = [];
+    for (const raw of rest.split(/[\s、,。]+/)) {
+        const token = raw.replace(/^(に|の|から|は|で)+/, '').replace(/(に|を|の|は)+$/, '');
+        if (!token) continue;
+        // 「渋谷で」「会議室にて」 read as a location memo
+        if (titleParts.length > 0 && /.(で|にて)$/.test(token)) {
+            memoParts.push(token);
+        } else {
+            titleParts.push(token);
+        }
+    }
+
+    const title = titleParts.join(' ').trim();
+    if (!title) return null;
+
+    const day = datePart ? datePart.date : startOfDay(base);
+    const time = allDay ? { hours: 0, minutes: 0 } : timePart ?? DEFAULT_EVENT_TIME;
+    const date = new Date(day.getFullYear(), day.getMonth(), day.getDate(), time.hours, time.minutes);
+
+    let end: Date | undefined;
+    if (timePart && endPart) {
+        // 「午後3時から5時」: a bare end hour before the start is in the afternoon
+        const endHours = endPart.hours < timePart.hours && endPart.hours < 12 ? endPart.hours + 12 : endPart.hours;
+        const candidate = new Date(date.getFullYear(), date.getMonth(), date.getDate(), endHours, endPart.minutes);
+        if (candidate > date) end = candidate;
+    }
+
+    return {
+        event: {
+            title,
+            date: date.toISOString(),
+            end: end?.toISOString(),
+            allDay: allDay || undefined,
+            description: memoParts.length > 0 ? memoParts.join(' ') : undefined,
+            recurrence: recurrencePart?.rule,
         },
-    ];
+        hasDate: !!datePart,
+        hasTime: !!timePart || allDay,
+    };
 };
 
 // ------- AI Chat Helpers -------
 
+const KANJI_DIGITS = '一二三四五六七八九';
+
+// 「2つ目」「三番目」「最後の」 → index into a list of `count` items
+const parseOrdinal = (input: string, count: number): number | null => {
+    const text = toHalfWidth(input);
+    const m = text.match(/(\d+|[一二三四五六七八九])\s*(?:つ目|番目|個目|件目)/);
+    if (m) {
+        const n = /\d/.test(m[1]) ? Number(m[1]) : KANJI_DIGITS.indexOf(m[1]) + 1;
+        return n >= 1 && n <= count ? n - 1 : null;
+    }
+    if (count === 0) return null;
+    if (/最初|はじめ/.test(text)) return 0;
+    if (/最後/.test(text)) return count - 1;
+    if (/それ|これ|あれ/.test(text) && count === 1) return 0;
+    return null;
+};
+
+const toEventRef = (e: Pick<CalendarEvent, 'id' | 'date'>): EventRef => ({ id: e.id, date: e.date });
+
+const YES_PATTERN = /^(はい|うん|ええ|お願い|おねがい|OK|ok|いいよ|削除して|消して|変更して|yes)/i;
+const NO_PATTERN = /^(いいえ|いや|やめ|キャンセル|だめ|no)/i;
+const MAX_CHOICES = 5;
+const MAX_LISTED_TASKS = 10;
+const TARGET_SEARCH_DAYS = 365;
+
+// 「明日のジム」 → the day, if any, and the title words
+const parseTargetPhrase = (phrase: string, base: Date): { keyword: string; date: Date | null } => {
+    const text = toHalfWidth(phrase).trim();
+    const datePart = parseDatePart(text, base);
+    const keyword = (datePart ? text.replace(datePart.match, '') : text)
+        .replace(/^の/, '')
+        .replace(/の?予定$/, '')
+        .trim();
+    return { keyword, date: datePart?.date ?? null };
+};
+
+// Editable events whose title loosely matches, one (the next) occurrence per event
+const findTargetEvents = (events: CalendarEvent[], keyword: string, date: Date | null, base: Date) => {
+    const key = normalizeForSearch(keyword);
+    const titleMatches = (e: CalendarEvent) => {
+        const title = normalizeForSearch(e.title);
+        return !key || title.includes(key) || (!!title && key.includes(title));
+    };
+    const editable = events.filter((e) => !e.readOnly && titleMatches(e));
+    const occurrences = date
+        ? filterEventsByDate(editable, date)
+        : expandEvents(editable, startOfDay(base), addDays(base, TARGET_SEARCH_DAYS));
+    const seen = new Set<string>();
+    return occurrences
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+        .filter((e) => !seen.has(e.id) && !!seen.add(e.id));
+};
+
+// 「19時」「来週」「金曜の10時」 → the new start and end, keeping the length
+const parseChangePhrase = (phrase: string, occurrence: CalendarEvent, base: Date): Pick<CalendarEvent, 'date' | 'end'> | null => {
+    const text = toHalfWidth(phrase);
+    const start = new Date(occurrence.date);
+    const datePart = parseDatePart(text, base);
+    const weekShift = datePart ? null : text.match(/再来週|来週|翌週/);
+    const time = occurrence.allDay ? null : parseTimePart(text);
+    if (!datePart && !weekShift && !time) return null;
+
+    let day = startOfDay(start);
+    if (datePart) day = datePart.date;
+    else if (weekShift) day = addDays(day, weekShift[0] === '再来週' ? 14 : 7);
+    const newStart = new Date(
+        day.getFullYear(),
+        day.getMonth(),
+        day.getDate(),
+        time?.hours ?? start.getHours(),
+        time?.minutes ?? start.getMinutes()
+    );
+
+    let end: Date | undefined;
+    if (occurrence.end && occurrence.allDay) {
+        end = addDays(new Date(occurrence.end), differenceInCalendarDays(newStart, start));
+    } else if (occurrence.end) {
+        end = new Date(newStart.getTime() + new Date(occurrence.end).getTime() - start.getTime());
+    }
+    return { date: newStart.toISOString(), end: end?.toISOString() };
+};
+
+// 「1時間」「1時間半」「90分」 → minutes
+const parseDurationPart = (input: string): { minutes: number; match: string; index: number } | null => {
+    const m = input.match(/(\d+(?:\.\d+)?)\s*時間(?:(半)|(\d+)\s*分)?|(\d+)\s*分間?/);
+    if (!m || m.index === undefined) return null;
+    const minutes = m[1] ? Math.round(Number(m[1]) * 60) + (m[2] ? 30 : Number(m[3] ?? 0)) : Number(m[4]);
+    return minutes > 0 ? { minutes, match: m[0], index: m.index } : null;
+};
+
+// 「金曜」「来週」「今週」 → the days to look for free time in; the coming week by default
+const parseRangePart = (input: string, base: Date): { from: Date; to: Date; label: string; match: string } => {
+    const today = startOfDay(base);
+    const datePart = parseDatePart(input, base);
+    if (datePart) {
+        return { from: datePart.date, to: datePart.date, label: format(datePart.date, 'M月d日(E)', { locale: ja }), match: datePart.match };
+    }
+    const week = input.match(/再来週|来週|今週|この週/);
+    if (week) {
+        const offset = week[0] === '再来週' ? 2 : week[0] === '来週' ? 1 : 0;
+        const weekStart = addDays(startOfWeek(today, { weekStartsOn: 0 }), offset * 7);
+        const label = week[0] === 'この週' ? '今週' : week[0];
+        return { from: offset === 0 ? today : weekStart, to: endOfWeek(weekStart, { weekStartsOn: 0 }), label, match: week[0] };
+    }
+    return { from: today, to: addDays(today, 6), label: 'この1週間', match: '' };
+};
+
+const FREE_TIME_PATTERN = /空いて|空き|あいて|暇|ひま/;
+// 「明日10時の予定は？」「10時に何がある」 ask about the time rather than book it
+const QUESTION_PATTERN = /[?？]|何|予定は|教えて|ある(?:か|の)?$|ありますか/;
+const BOOKING_PATTERN = /入れられ|入る[？?か]|入れる[？?か]|取れ(る|ます|そう)/;
+
+const HOLIDAY_PATTERN = /祝日|祭日|振替休日|国民の休日/;
+const MONTH_OFFSETS: Record<string, number> = { 先月: -1, 今月: 0, 来月: 1, 再来月: 2 };
+const YEAR_OFFSETS: Record<string, number> = { 去年: -1, 昨年: -1, 今年: 0, 来年: 1, 再来年: 2 };
+const UPCOMING_HOLIDAYS = 3;
+
+// 「今月の祝日は？」「来年の祝日」「11月の祝日」「明日は祝日？」; otherwise the next few
+const describeHolidays = (input: string, base: Date) => {
+    const today = startOfDay(base);
+    const list = (holidays: Holiday[], label: string) =>
+        holidays.length > 0
+            ? `🎌 ${label}の祝日は${holidays.length}日です：\n\n${holidays.map(describeHoliday).join('\n')}`
+            : `${label}は祝日がありません 😢`;
+
+    const month = input.match(/(先月|今月|来月|再来月)|(\d{1,2})月(?![\d日])/);
+    if (month && (month[1] || (Number(month[2]) >= 1 && Number(month[2]) <= 12))) {
+        let target = startOfMonth(addMonths(today, MONTH_OFFSETS[month[1]] ?? 0));
+        if (month[2]) {
+            // A month already over this year means next year's
+            target = new Date(today.getFullYear(), Number(month[2]) - 1, 1);
+            if (endOfMonth(target) < today) target.setFullYear(target.getFullYear() + 1);
+        }
+        return list(getHolidaysInMonth(target), format(target, target.getFullYear() === today.getFullYear() ? 'M月' : 'yyyy年M月'));
+    }
+
+    const year = input.match(/(去年|昨年|今年|来年|再来年)|(\d{4})年/);
+    if (year) {
+        const target = year[2] ? Number(year[2]) : today.getFullYear() + YEAR_OFFSETS[year[1]];
+        if (target < HOLIDAY_YEARS.from || target > HOLIDAY_YEARS.to) {
+            return `祝日は${HOLIDAY_YEARS.from}年から${HOLIDAY_YEARS.to}年までお答えできます 🙏`;
+        }
+        return list(getHolidays(target), `${target}年`);
+    }
+
+    const upcoming = getHolidaysBetween(today, addDays(today, 365)).slice(0, UPCOMING_HOLIDAYS);
+    const day = parseDatePart(input, today);
+    if (day) {
+        const name = getHoliday(day.date);
+        const dayStr = format(day.date, 'M月d日(E)', { locale: ja });
+        if (name) return `🎌 ${dayStr}は${name}です！`;
+        const next = upcoming.find((h) => h.date > toDateKey(day.date)) ?? getHolidaysBetween(day.date, addDays(day.date, 365))[0];
+        return `${dayStr}は祝日ではありません${next ? `。次の祝日は${describeHoliday(next)}です` : ''}`;
+    }
+
+    if (upcoming.length === 0) return 'この先1年の祝日は見つかりませんでした';
+    const lines = upcoming.map((h) => {
+        const days = differenceInCalendarDays(parseISO(h.date), today);
+        return `${describeHoliday(h)}（${days === 0 ? '今日' : `あと${days}日`}）`;
+    });
+    return `🎌 次の祝日です：\n\n${lines.join('\n')}`;
+};
+
+export interface AssistantAction {
+    type: 'add' | 'list' | 'update' | 'delete' | 'view' | 'search' | 'focus' | 'addTask';
+    event?: Partial<CalendarEvent>; // for update/delete, `id` names the target
+    task?: Pick<Task, 'title' | 'due' | 'priority'>;
+    view?: CalendarView;
+    date?: string;
+}
+
+export interface AssistantReply {
+    text: string;
+    action?: AssistantAction;
+    context?: ConversationContext; // replaces the conversation context when set
+}
+
+const describeWhen = (e: Pick<CalendarEvent, 'date' | 'end' | 'allDay'>) => `${format(new Date(e.date), 'M月d日(E)', { locale: ja })} ${formatEventRange(e)}`;
+
+/**
+ * Asks before deleting: the reply waits for 「はい」 in `pending`, or for a
+ * recurring event, sends it to the series dialog, which asks anyway. Both the
+ * rules and the LLM route go through here; neither deletes outright.
+ */
+export const confirmDelete = (
+    occurrence: Pick<CalendarEvent, 'id' | 'title' | 'date' | 'end' | 'allDay' | 'readOnly' | 'recurrence'>,
+    ctx: ConversationContext
+): AssistantReply => {
+    const refs = [toEventRef(occurrence)];
+    if (occurrence.readOnly) {
+        return { text: `${formatEventRef(occurrence)}は購読カレンダーの予定なので削除できません 🔒`, context: ctx };
+    }
+    const action: AssistantAction = {
+        type: 'delete',
+        event: { id: occurrence.id, date: occurrence.date, title: occurrence.title },
+    };
+    if (occurrence.recurrence) {
+        return {
+            text: `${formatEventRef(occurrence)}は繰り返しの予定です。削除する範囲を選んでください 🗑`,
+            action,
+            context: { ...ctx, lastEvents: refs },
+        };
+    }
+    const what = `${describeWhen(occurrence)} ${formatEventRef(occurrence)}`;
+    return {
+        text: `${what}を削除しますか？\n「はい」で削除、「いいえ」でそのままにします。`,
+        context: { ...ctx, lastEvents: refs, pending: { action, doneText: `${what}を削除しました 🗑` } },
+    };
+};
+
 export const parseAIResponse = (
     input: string,
-    events: CalendarEvent[]
-): { text: string; action?: { type: 'add' | 'list'; event?: Partial<CalendarEvent> } } => {
+    events: CalendarEvent[],
+    context: ConversationContext = {},
+    scheduling: SchedulingSettings = DEFAULT_SETTINGS,
+    categories: Category[] = [],
+    tasks: Task[] = []
+): AssistantReply => {
     const today = new Date();
-    const todayStr = format(today, 'M月d日');
 
-    // Query: 今日の予定
-    if (input.includes('今日の予定') || input.includes('今日は何')) {
-        const todayEvents = filterEventsByDate(events, today);
-        if (todayEvents.length > 0) {
-            const list = todayEvents
-                .map(e => `📌 ${formatEventTime(e.date)} ${e.title}${e.description ? ` - ${e.description}` : ''}`)
-                .join('\n');
-            return { text: `${todayStr}の予定は${todayEvents.length}件です！\n\n${list}` };
+    // 「今週の仕事の予定」: the day and week queries, narrowed to one category
+    const category = findCategoryIn(input, categories);
+    const listed = category ? events.filter((e) => e.categoryId === category.id) : events;
+    const label = category ? `${category.name}の予定` : '予定';
+    const query = category ? input.replace(label, '予定') : input;
+
+    // One day's schedule, remembered so follow-ups can refer back to it
+    const replyForDay = (day: Date, emptyText: string): AssistantReply => {
+        const dayEvents = sortDayEvents(filterEventsByDate(listed, day));
+        const summary = summarizeDay(dayEvents, day, label);
+        const context = { lastDate: toDateKey(day), lastEvents: dayEvents.map(toEventRef) };
+        const holiday = getHoliday(day);
+        const text = `${dayEvents.length > 0 ? summary : `${summary} ${emptyText}`}${holiday ? `\n\n🎌 ${holiday}です` : ''}`;
+        return { text, context };
+    };
+
+    const occurrenceFor = (ref: EventRef) => {
+        const target = events.find((e) => e.id === ref.id);
+        return target && (filterEventsByDate([target], new Date(ref.date)).find((o) => o.date === ref.date) ?? target);
+    };
+
+    // Changes wait for 「はい」 like deletes; after that, follow-ups refer to the moved event
+    const applyChange = (occurrence: CalendarEvent, change: string, ctx: ConversationContext): AssistantReply => {
+        if (occurrence.readOnly) {
+            return { text: `${formatEventRef(occurrence)}は購読カレンダーの予定なので変更できません 🔒`, context: ctx };
+        }
+        const changes = parseChangePhrase(change, occurrence, today);
+        if (!changes) {
+            return {
+                text: `${formatEventRef(occurrence)}をどう変更しますか？\n「19時に変更」「来週に移して」のように教えてください。`,
+                context: { ...ctx, lastEvents: [toEventRef(occurrence)] },
+            };
+        }
+        // A changed occurrence of a series becomes a one-off (see updateOccurrence)
+        const id = occurrence.recurrence ? `${occurrence.id}_${occurrenceKey(occurrence, new Date(occurrence.date))}` : occurrence.id;
+        const moved = { ...occurrence, ...changes, id };
+        const action: AssistantAction = { type: 'update', event: { id: occurrence.id, ...changes }, date: occurrence.date };
+        const doneText = `${formatEventRef(moved)}を${describeWhen(moved)}に変更しました ✏️`;
+        return {
+            text: `${describeWhen(occurrence)} ${formatEventRef(occurrence)}を${describeWhen(moved)}に変更しますか？\n「はい」で変更、「いいえ」でそのままにします。`,
+            context: {
+                lastDate: toDateKey(new Date(moved.date)),
+                lastEvents: [toEventRef(occurrence)],
+                pending: { action, doneText, lastEvents: [toEventRef(moved)] },
+            },
+        };
+    };
+
+    // One match acts on it, several ask which one
+    const resolveTargets = (phrase: string, type: 'update' | 'delete', change = ''): AssistantReply => {
+        const { keyword, date } = parseTargetPhrase(phrase, today);
+        if (!keyword && !date) {
+            return { text: 'どの予定ですか？「明日の歯医者をキャンセル」のように教えてください 🙏' };
+        }
+        const candidates = findTargetEvents(events, keyword, date, today);
+        const label = `${date ? format(date, 'M月d日の', { locale: ja }) : ''}${keyword ? `「${keyword}」` : '予定'}`;
+        if (candidates.length === 0) {
+            return { text: `${label}が見つかりませんでした 🤔` };
+        }
+        if (candidates.length === 1) {
+            return type === 'delete' ? confirmDelete(candidates[0], context) : applyChange(candidates[0], change, context);
+        }
+        const shown = candidates.slice(0, MAX_CHOICES);
+        const list = shown.map((e, i) => `${i + 1}. ${describeWhen(e)} ${formatEventRef(e)}`).join('\n');
+        return {
+            text: `${label}が${candidates.length}件あります。どれですか？\n\n${list}\n\n番号で教えてください。`,
+            context: { lastDate: context.lastDate, lastEvents: shown.map(toEventRef), choosing: { type, change } },
+        };
+    };
+
+    // Answers to the question asked last turn
+    if (context.pending || context.choosing || context.booking) {
+        const base: ConversationContext = { lastDate: context.lastDate, lastEvents: context.lastEvents };
+        const answer = input.trim();
+        const bare = toHalfWidth(answer).match(/^(\d+)\s*(?:番|番目|つ目|個目|件目)?(?:で|を|に)?(?:して|お願い)?$/);
+        if (context.pending && YES_PATTERN.test(answer)) {
+            const lastEvents = context.pending.lastEvents ?? base.lastEvents;
+            return { text: context.pending.doneText, action: context.pending.action, context: { ...base, lastEvents } };
         }
-        return { text: `${todayStr}の予定は特にありません 🎉\nのんびりできますね！` };
+        if (context.pending && NO_PATTERN.test(answer)) {
+            return { text: 'わかりました、そのままにしておきます 👍', context: base };
+        }
+        if (context.choosing) {
+            const refs = context.lastEvents ?? [];
+            const index = bare ? Number(bare[1]) - 1 : parseOrdinal(answer, refs.length);
+            const chosen = index !== null && index >= 0 && index < refs.length ? occurrenceFor(refs[index]) : undefined;
+            if (chosen) {
+                return context.choosing.type === 'delete'
+                    ? confirmDelete(chosen, base)
+                    : applyChange(chosen, context.choosing.change ?? '', base);
+            }
+        }
+        if (context.booking) {
+            const { title, slots } = context.booking;
+            // 「はい」 takes the first suggestion, which is the earliest
+            const index = bare ? Number(bare[1]) - 1 : YES_PATTERN.test(answer) ? 0 : parseOrdinal(answer, slots.length);
+            const slot = index !== null && index >= 0 && index < slots.length ? slots[index] : undefined;
+            if (slot) {
+                return {
+                    text: `予定を追加しました！📝\n\n📌 ${describeWhen(slot)} ${title}`,
+                    action: { type: 'add', event: { title, ...slot } },
+                    context: { lastDate: toDateKey(new Date(slot.date)), lastEvents: [] },
+                };
+            }
+            if (NO_PATTERN.test(answer)) {
+                return { text: 'わかりました、今回は入れずにおきます 👍', context: base };
+            }
+        }
+        // Anything else drops the question
+        const reply = parseAIResponse(input, events, base, scheduling, categories, tasks);
+        return { ...reply, context: reply.context ?? base };
     }
 
-    // Query: 明日の予定
-    if (input.includes('明日の予定') || input.includes('明日は何')) {
-        const tomorrow = new Date(today);
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        const tomorrowEvents = filterEventsByDate(events, tomorrow);
-        const tomorrowStr = format(tomorrow, 'M月d日');
-        if (tomorrowEvents.length > 0) {
-            const list = tomorrowEvents
-                .map(e => `📌 ${formatEventTime(e.date)} ${e.title}${e.description ? ` - ${e.description}` : ''}`)
-                .join('\n');
-            return { text: `${tomorrowStr}の予定は${tomorrowEvents.length}件です！\n\n${list}` };
+    // Switch the calendar view: 「週表示にして」「来週を週表示で」
+    const viewMatch = input.match(/(月|週|日)(表示|ビュー)/);
+    if (viewMatch) {
+        const label = viewMatch[1] as '月' | '週' | '日';
+        const view: CalendarView = ({ 月: 'month', 週: 'week', 日: 'day' } as const)[label];
+        const target = parseDatePart(toHalfWidth(input), today);
+        return {
+            text: `${label}表示に切り替えました 🗓${target ? `\n${format(target.date, 'M月d日(E)', { locale: ja })}を表示しています。` : ''}`,
+            action: { type: 'view', view, date: target?.date.toISOString() },
+        };
+    }
+
+    // Follow-ups on the last day talked about: 「その次の日は？」「前の日は？」
+    const dayStep = input.match(/(次|翌|前)の?日/);
+    if (dayStep && context.lastDate && !parseDatePart(toHalfWidth(input), today)) {
+        const day = addDays(parseISO(context.lastDate), dayStep[1] === '前' ? -1 : 1);
+        return replyForDay(day, '✨');
+    }
+
+    // Ordinal references to the last listed events: 「2つ目を消して」「最初の予定の詳細」
+    const refs = context.lastEvents ?? [];
+    const isDeleteRequest = /消して|削除|キャンセル|取り消/.test(input);
+    const isDetailRequest = /詳細|詳しく|何時|どこ|教えて|は？|は\?|って？|って\?/.test(input);
+    const ordinal = isDeleteRequest || isDetailRequest ? parseOrdinal(input, refs.length) : null;
+    if (ordinal !== null) {
+        const ref = refs[ordinal];
+        const occurrence = occurrenceFor(ref);
+        if (!occurrence) {
+            return { text: 'その予定は見つかりませんでした 🤔\nすでに削除されているかもしれません。' };
         }
-        return { text: `${tomorrowStr}の予定は特にありません 😊\nゆっくり休めますね！` };
+        if (isDeleteRequest) return confirmDelete(occurrence, context);
+
+        const when = describeWhen(occurrence);
+        const minutes = getEventDurationMinutes(occurrence);
+        const lines = [`📌 ${formatEventRef(occurrence)}`, `🕐 ${when}${minutes ? `（${formatDuration(minutes)}）` : ''}`];
+        if (occurrence.recurrence) lines.push(`🔁 ${describeRecurrence(occurrence.recurrence)}`);
+        if (occurrence.description) lines.push(`📝 ${occurrence.description}`);
+        return {
+            text: lines.join('\n'),
+            action: { type: 'focus', event: { id: occurrence.id, date: occurrence.date } },
+            context: { lastDate: toDateKey(new Date(occurrence.date)), lastEvents: [ref] },
+        };
+    }
+
+    // Tasks: 「牛乳を買うをタスクに追加」「金曜までにレポートをやることに追加」
+    const newTask = parseTaskCommand(toHalfWidth(input), (text) => parseDatePart(text, today));
+    if (newTask) {
+        const due = newTask.due ? `\n📅 ${format(parseISO(newTask.due), 'M月d日(E)', { locale: ja })}まで` : '';
+        return {
+            text: `タスクに追加しました！✅\n\n${newTask.priority === 'high' ? '❗' : '☐'} ${newTask.title}${due}`,
+            action: { type: 'addTask', task: newTask },
+        };
+    }
+
+    // Task list: 「やることリスト」「タスクは？」
+    if (TASK_LIST_PATTERN.test(input.trim())) {
+        const open = sortTasks(tasks.filter((t) => !t.completed));
+        if (open.length === 0) {
+            return { text: 'やることは全部片付いています！🎉\n「牛乳を買うをタスクに追加」のように送ってもらえれば追加します。' };
+        }
+        const overdue = open.filter((t) => isOverdue(t, today)).length;
+        const shown = open.slice(0, MAX_LISTED_TASKS);
+        const lines = shown.map((t) => describeTaskLine(t, today));
+        if (open.length > shown.length) lines.push(`…ほか${open.length - shown.length}件`);
+        return {
+            text: `📝 やることリスト（${open.length}件${overdue > 0 ? `、うち期限切れ${overdue}件` : ''}）：\n\n${lines.join('\n')}`,
+        };
+    }
+
+    // Holidays: 「今月の祝日は？」「次の祝日はいつ？」
+    if (HOLIDAY_PATTERN.test(input) && !/予定|追加|入れて|登録|変更|移して|キャンセル|削除/.test(input)) {
+        return { text: describeHolidays(toHalfWidth(input), today) };
+    }
+
+    // Change: 「明日のジムを19時に変更」「会議を来週に移して」「2つ目を金曜に移動」
+    const changeMatch = input.match(/^(.+?)を(.+?)(?:に|へ)?(?:変更|変えて|移して|移動|ずらして|延期)/);
+    if (changeMatch) {
+        const ordinalTarget = parseOrdinal(changeMatch[1], refs.length);
+        const occurrence = ordinalTarget !== null ? occurrenceFor(refs[ordinalTarget]) : undefined;
+        if (occurrence) return applyChange(occurrence, changeMatch[2], context);
+        return resolveTargets(changeMatch[1], 'update', changeMatch[2]);
+    }
+
+    // Cancel: 「美容院をキャンセル」「明日の歯医者を削除して」
+    const cancelMatch = input.match(/^(.+?)を?(?:キャンセル|削除|消して|取り消|中止)/);
+    if (cancelMatch) {
+        return resolveTargets(cancelMatch[1], 'delete');
+    }
+
+    // Free time: 「今週空いてる時間は？」「金曜に1時間の打ち合わせ入れられる？」
+    const freeText = toHalfWidth(input);
+    const duration = parseDurationPart(freeText);
+    if (FREE_TIME_PATTERN.test(freeText) || (duration && BOOKING_PATTERN.test(freeText))) {
+        const range = parseRangePart(freeText, today);
+        const slots = findFreeSlots(events, range.from, range.to, { ...scheduling, notBefore: today });
+        const hours = describeWorkingHours(scheduling.workingHours);
+        const describeSlot = (slot: TimeSlot) => `${format(slot.start, 'HH:mm')}–${format(slot.end, 'HH:mm')}`;
+
+        if (!duration) {
+            if (slots.length === 0) {
+                return { text: `${range.label}は勤務時間（${hours}）内に空き時間がありません 😵\n勤務時間は設定から変更できます。` };
+            }
+            const lines: string[] = [];
+            let lastDay: Date | null = null;
+            for (const slot of slots) {
+                if (!lastDay || !isSameDay(lastDay, slot.start)) {
+                    lines.push(`${lastDay ? '\n' : ''}【${format(slot.start, 'M/d(E)', { locale: ja })}】`);
+                    lastDay = slot.start;
+                }
+                lines.push(`  ・${describeSlot(slot)}（${formatDuration(differenceInMinutes(slot.end, slot.start))}）`);
+            }
+            return {
+                text: `🕊 ${range.label}の空き時間です（${hours}）：\n\n${lines.join('\n')}\n\n「金曜に1時間の打ち合わせ入れられる？」と聞いてもらえれば、候補を出して登録します。`,
+                context: isSameDay(range.from, range.to) ? { lastDate: toDateKey(range.from), lastEvents: [] } : undefined,
+            };
+        }
+
+        // The title is whatever is left around the duration: 「1時間の打ち合わせ」「打ち合わせを1時間」
+        const withoutDuration = freeText.replace(duration.match, '');
+        const time = parseTimePart(withoutDuration);
+        const clean = (part: string) =>
+            part
+                .replace(range.match, '')
+                .replace(time?.match ?? '', '')
+                .replace(/(を|は)?(入れ|入る|取れ|空い|あい).*$/, '')
+                .replace(/^[をにでのは、\s]+|[をにでのは、\s]+$/g, '')
+                .trim();
+        const title =
+            clean(freeText.slice(duration.index + duration.match.length)) || clean(freeText.slice(0, duration.index)) || '予定';
+        const what = `「${title}」（${formatDuration(duration.minutes)}）`;
+
+        let suggestions = suggestSlots(slots, duration.minutes);
+        let intro = `${range.label}なら${what}をこの時間に入れられます！`;
+        // A time was asked for: offer just that when it's free, alternatives otherwise
+        if (time && isSameDay(range.from, range.to)) {
+            const start = new Date(range.from.getFullYear(), range.from.getMonth(), range.from.getDate(), time.hours, time.minutes);
+            const end = addMinutes(start, duration.minutes);
+            if (slots.some((slot) => slot.start <= start && end <= slot.end)) {
+                suggestions = [{ start, end }];
+                intro = `${format(start, 'M月d日(E) HH:mm', { locale: ja })}からなら${what}を入れられます！`;
+            } else {
+                intro = `${format(start, 'M月d日(E) HH:mm', { locale: ja })}からは空いていません 🙇\n代わりにこの時間はどうでしょう？`;
+            }
+        }
+        if (suggestions.length === 0) {
+            return { text: `${range.label}の勤務時間（${hours}）内には${what}を入れられる空きがありませんでした 😵\n別の日で聞いてみてください。` };
+        }
+        const list = suggestions.map((slot, i) => `${i + 1}. ${format(slot.start, 'M/d(E)', { locale: ja })} ${describeSlot(slot)}`);
+        const prompt = suggestions.length === 1 ? '「はい」で登録します 📝' : '番号で選んでもらえれば登録します 📝';
+        return {
+            text: `${intro}\n\n${list.join('\n')}\n\n${prompt}`,
+            context: {
+                lastDate: context.lastDate,
+                lastEvents: context.lastEvents,
+                booking: { title, slots: suggestions.map((slot) => ({ date: slot.start.toISOString(), end: slot.end.toISOString() })) },
+            },
+        };
+    }
+
+    // Search: 「歯医者いつだっけ」「前回の美容院はいつ」「会議を検索」
+    const searchMatch = input.match(/^(.+?)(?:の予定)?(?:って|は)?\s*(?:いつ(?!も)|を?(?:検索|探して|さがして))/);
+    if (searchMatch) {
+        const keyword = searchMatch[1].replace(/^(次の|前回の|この前の|最後の)/, '').trim();
+        const upcoming = searchEvents(events, { query: keyword, when: 'upcoming' }, today);
+        const past = searchEvents(events, { query: keyword, when: 'past' }, today);
+        const wantsPast = /前回|この前|最後/.test(input);
+        const lastPast = past[past.length - 1];
+        const hit = wantsPast ? lastPast ?? upcoming[0] : upcoming[0] ?? lastPast;
+        if (!hit) {
+            return { text: `「${keyword}」に一致する予定は見つかりませんでした 🔍\n別のキーワードでも試してみてください。` };
+        }
+
+        const describe = (e: CalendarEvent) =>
+            `📌 ${format(new Date(e.date), 'yyyy年M月d日(E)', { locale: ja })} ${formatEventRange(e)} ${formatEventRef(e)}`;
+        let text = hit === lastPast
+            ? `「${keyword}」の前回の予定はこちらです。\n\n${describe(hit)}`
+            : `「${keyword}」の次の予定はこちらです！\n\n${describe(hit)}`;
+        const later = upcoming.filter((e) => e !== hit).slice(0, 4);
+        if (later.length > 0) {
+            text += `\n\nその後の予定：\n${later.map(describe).join('\n')}`;
+        } else if (upcoming.length === 0) {
+            text += '\n\n今後の予定はまだありません。';
+        }
+        return {
+            text,
+            action: { type: 'search', event: hit },
+            context: { lastDate: toDateKey(new Date(hit.date)), lastEvents: [hit, ...later].map(toEventRef) },
+        };
+    }
+
+    // Add event from natural language: 「明日15時に歯医者」; a time alone is enough unless it's a question
+    const isAddCommand = input.includes('追加') || input.includes('入れて') || input.includes('登録');
+    const parsed = parseEventInput(input, today);
+    if (parsed && (isAddCommand || (parsed.hasTime && !QUESTION_PATTERN.test(input)))) {
+        const { event } = parsed;
+        const when = event.recurrence
+            ? `${describeRecurrence(event.recurrence)} ${formatEventRange(event)}（${format(new Date(event.date), 'M月d日', { locale: ja })}から）`
+            : `${format(new Date(event.date), 'M月d日(E)', { locale: ja })} ${formatEventRange(event)}`;
+        return {
+            text: `予定を追加しました！📝\n\n📌 ${when} ${event.title}${event.description ? ` - ${event.description}` : ''}`,
+            action: { type: 'add', event },
+            context: { lastDate: toDateKey(new Date(event.date)), lastEvents: [] },
+        };
+    }
+
+    // Query: 今日の予定
+    if (query.includes('今日の予定') || query.includes('今日は何')) {
+        return replyForDay(today, '🎉\nのんびりできますね！');
+    }
+
+    // Query: 明日の予定
+    if (query.includes('明日の予定') || query.includes('明日は何')) {
+        return replyForDay(addDays(today, 1), '😊\nゆっくり休めますね！');
+    }
+
+    // Query: any other day 「金曜の予定」「10/25は何がある？」
+    const queriedDay = parseDatePart(toHalfWidth(query), today);
+    if (queriedDay && /予定|何|は？|は\?/.test(query)) {
+        return replyForDay(queriedDay.date, '✨');
     }
 
     // Query: 今週の予定
-    if (input.includes('今週') || input.includes('この週')) {
+    if (query.includes('今週') || query.includes('この週')) {
         const weekStart = startOfWeek(today, { weekStartsOn: 0 });
         const weekEnd = endOfWeek(today, { weekStartsOn: 0 });
         const weekDays = eachDayOfInterval({ start: weekStart, end: weekEnd });
 
-        let result = '📅 今週の予定：\n\n';
-        let totalCount = 0;
+        let result = `📅 今週の${label}：\n\n`;
+        const shown: CalendarEvent[] = [];
         for (const day of weekDays) {
-            const dayEvents = filterEventsByDate(events, day);
+            const dayEvents = filterEventsByDate(listed, day);
             if (dayEvents.length > 0) {
                 result += `【${format(day, 'M/d(E)', { locale: ja })}】\n`;
-                for (const e of dayEvents) {
-                    result += `  ・${formatEventTime(e.date)} ${e.title}\n`;
-                    totalCount++;
+                for (const e of sortDayEvents(dayEvents)) {
+                    const minutes = getEventDurationMinutes(e);
+                    result += `  ・${formatEventRange(e)} ${formatEventRef(e)}${minutes ? `（${formatDuration(minutes)}）` : ''}\n`;
+                    shown.push(e);
                 }
             }
         }
-        if (totalCount === 0) {
-            return { text: '今週の予定はありません！🎉 フリーな一週間ですね。' };
+        if (shown.length === 0) {
+            return { text: category ? `今週の${label}はありません！🎉` : '今週の予定はありません！🎉 フリーな一週間ですね。' };
         }
-        return { text: result.trim() };
+        return { text: result.trim(), context: { ...context, lastEvents: shown.map(toEventRef) } };
+    }
+
+    // Query: 「仕事の予定は？」 without a day → the next few
+    if (category && !isAddCommand) {
+        const upcoming = searchEvents(listed, { query: '', when: 'upcoming' }, today).slice(0, 5);
+        if (upcoming.length === 0) return { text: `これからの${label}はありません ✨` };
+        const list = upcoming.map((e) => `📌 ${format(new Date(e.date), 'M月d日(E)', { locale: ja })} ${formatEventRange(e)} ${formatEventRef(e)}`);
+        return {
+            text: `${category.icon} これからの${label}です！\n\n${list.join('\n')}`,
+            context: { ...context, lastEvents: upcoming.map(toEventRef) },
+        };
     }
 
-    // Add event intent
-    if (input.includes('予定') && (input.includes('追加') || input.includes('入れて') || input.includes('登録'))) {
+    // Add event intent without enough detail to parse
+    if (input.includes('予定') && isAddCommand) {
         return {
-            text: '予定を追加しますね！📝\nカレンダーの「＋追加」ボタンから、日時と内容を入力してください。\n\n（ヒント：日付をクリックしてから「＋追加」を押すと、その日の予定として追加できます）',
+            text: '予定を追加しますね！📝\n「明日15時に歯医者」のように日時と内容を送ってもらえれば、そのまま登録します。\n\n（カレンダーの「＋追加」ボタンからも追加できます）',
         };
     }
 
@@ -186,7 +1140,15 @@ export const parseAIResponse = (
                 '💬 「今日の予定」→ 今日のスケジュールを確認\n' +
                 '💬 「明日の予定」→ 明日のスケジュールを確認\n' +
                 '💬 「今週の予定」→ 週間スケジュールを確認\n' +
-                '💬 「予定を追加」→ 追加方法をガイド\n\n' +
+                '💬 「今週の仕事の予定」→ カテゴリで絞り込み\n' +
+                '💬 「明日15時に歯医者」→ 予定を追加\n' +
+                '💬 「週表示にして」→ カレンダーの表示を切り替え\n' +
+                '💬 「歯医者いつだっけ」→ 予定を検索\n' +
+                '💬 「その次の日は？」「2つ目を消して」→ 直前の話題の続き\n' +
+                '💬 「明日のジムを19時に変更」「美容院をキャンセル」→ 予定を変更・削除\n' +
+                '💬 「今週空いてる時間は？」「金曜に1時間の打ち合わせ入れられる？」→ 空き時間を探して提案\n' +
+                '💬 「やることリスト」「牛乳を買うをタスクに追加」→ タスクを確認・追加\n' +
+                '💬 「今月の祝日は？」「次の祝日は？」→ 祝日を確認\n\n' +
                 '📅 カレンダーの日付をクリックして詳細を確認できます！'
         };
     }
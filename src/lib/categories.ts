@@ -0,0 +1,49 @@
+import type { CalendarEvent } from './calendar';
+
+// ------- Categories -------
+// User-defined groups (仕事/プライベート/…); kept in AppSettings
+
+export interface Category {
+    id: string;
+    name: string;
+    color: string; // #rrggbb
+    icon: string; // an emoji
+    hidden?: boolean; // left off the calendar, still known to the chat
+}
+
+export const DEFAULT_CATEGORIES: Category[] = [
+    { id: 'work', name: '仕事', color: '#4f46e5', icon: '💼' },
+    { id: 'private', name: 'プライベート', color: '#10b981', icon: '🏠' },
+    { id: 'health', name: '健康', color: '#ef4444', icon: '💪' },
+];
+
+// Offered in turn to new categories
+export const CATEGORY_COLORS = ['#f59e0b', '#8b5cf6', '#0ea5e9', '#ec4899', '#14b8a6', '#64748b'];
+
+// Events whose category was deleted count as having none
+export const findCategory = (categories: Category[], id?: string) =>
+    id ? categories.find((c) => c.id === id) : undefined;
+
+export const isEventVisible = (event: Pick<CalendarEvent, 'categoryId'>, categories: Category[]) =>
+    !findCategory(categories, event.categoryId)?.hidden;
+
+// 「仕事の予定」 in a chat message → the 仕事 category; the longest name wins (仕事 vs 副仕事)
+export const findCategoryIn = (input: string, categories: Category[]) =>
+    categories
+        .filter((c) => c.name && input.includes(`${c.name}の予定`))
+        .sort((a, b) => b.name.length - a.name.length)[0];
+
+// ------- Tags -------
+
+// 「#買い物 家族、旅行」 → ['買い物', '家族', '旅行']
+export const parseTags = (text: string): string[] =>
+    Array.from(
+        new Set(
+            text
+                .split(/[\s,、，]+/)
+                .map((tag) => tag.replace(/^[#＃]/, '').trim())
+                .filter(Boolean)
+        )
+    );
+
+export const formatTags = (tags: string[] = []) => tags.map((tag) => `#${tag}`).join(' ');
@@ -0,0 +1,91 @@
+import type { AssistantAction, CalendarEvent } from './calendar';
+
+export interface ChatMessage {
+    id: string;
+    text: string;
+    sender: 'user' | 'ai';
+}
+
+// One occurrence the assistant mentioned, in the order it was listed
+export interface EventRef {
+    id: string;
+    date: string; // ISO string of the occurrence
+}
+
+/**
+ * What the last replies were about, so 「その次の日は？」 and 「2つ目を消して」
+ * can be resolved against them.
+ */
+export interface ConversationContext {
+    lastDate?: string; // yyyy-MM-dd of the last day talked about
+    lastEvents?: EventRef[];
+    // A delete or change waiting for 「はい」; `lastEvents` replaces the current ones once it's done
+    pending?: { action: AssistantAction; doneText: string; lastEvents?: EventRef[] };
+    choosing?: { type: 'update' | 'delete'; change?: string }; // lastEvents are the candidates
+    booking?: { title: string; slots: Pick<CalendarEvent, 'date' | 'end'>[] }; // suggested times to pick from
+}
+
+// ------- Event References -------
+// Replies mark event titles as [[event:<id>|<date>|<title>]] so the chat can
+// render them as links that select the day in the calendar.
+
+const EVENT_REF_PATTERN = /\[\[event:([^|\]]+)\|([^|\]]+)\|(.+?)\]\]/g;
+
+export const formatEventRef = (event: Pick<CalendarEvent, 'id' | 'date' | 'title'>) =>
+    `[[event:${event.id}|${event.date}|${event.title.replace(/\]\]/g, '] ]')}]]`;
+
+export type ChatSegment = string | (EventRef & { label: string });
+
+export const splitEventRefs = (text: string): ChatSegment[] => {
+    const segments: ChatSegment[] = [];
+    let last = 0;
+    for (const m of text.matchAll(EVENT_REF_PATTERN)) {
+        if (m.index > last) segments.push(text.slice(last, m.index));
+        segments.push({ id: m[1], date: m[2], label: m[3] });
+        last = m.index + m[0].length;
+    }
+    if (last < text.length) segments.push(text.slice(last));
+    return segments;
+};
+
+// Plain text for places that can't render links, like notifications
+export const stripEventRefs = (text: string) => text.replace(EVENT_REF_PATTERN, '$3');
+
+// ------- History (LocalStorage) -------
+
+const CHAT_KEY = 'ai-secretary-chat';
+const MAX_HISTORY = 200;
+
+export interface ChatHistory {
+    messages: ChatMessage[];
+    context: ConversationContext;
+}
+
+export const loadChatHistory = (): ChatHistory | null => {
+    if (typeof window === 'undefined') return null;
+    try {
+        const data = localStorage.getItem(CHAT_KEY);
+        if (data) {
+            const parsed = JSON.parse(data);
+            if (Array.isArray(parsed.messages) && parsed.messages.length > 0) {
+                return { messages: parsed.messages, context: parsed.context ?? {} };
+            }
+        }
+    } catch {
+        // ignore
+    }
+    return null;
+};
+
+export const saveChatHistory = (history: ChatHistory) => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(
+        CHAT_KEY,
+        JSON.stringify({ messages: history.messages.slice(-MAX_HISTORY), context: history.context })
+    );
+};
+
+export const clearChatHistory = () => {
+    if (typeof window === 'undefined') return;
+    localStorage.removeItem(CHAT_KEY);
+};
@@ -0,0 +1,58 @@
+import { addDays, parse, startOfDay } from 'date-fns';
+import { CalendarEvent, filterEventsByDate, sortDayEvents, summarizeDay } from './calendar';
+import { stripEventRefs } from './chat';
+import { toDateKey } from './recurrence';
+import type { DigestSettings } from './settings';
+import { describeTaskLine, tasksForDay, type Task } from './tasks';
+
+// One scheduled summary, as handed to the service worker
+export interface DigestNotification {
+    key: string; // per day and kind, so each digest is shown once
+    fireAt: number; // epoch ms
+    title: string;
+    body: string;
+    date: string; // yyyy-MM-dd of the day it summarizes
+}
+
+// Built a week ahead so digests keep coming on days the app isn't opened
+const DIGEST_DAYS = 7;
+
+/**
+ * The morning 今日の予定 and evening 明日の予定 notifications due after `now`,
+ * worded by the same summary as the chat's 「今日の予定」 reply. The morning one
+ * also lists open tasks due that day, overdue ones included.
+ */
+export const buildDigests = (
+    events: CalendarEvent[],
+    settings: DigestSettings,
+    tasks: Task[] = [],
+    now: Date = new Date()
+): DigestNotification[] => {
+    const kinds = [
+        { kind: 'morning', time: settings.morning, offset: 0, title: '☀️ 今日の予定' },
+        { kind: 'evening', time: settings.evening, offset: 1, title: '🌙 明日の予定' },
+    ];
+    const digests: DigestNotification[] = [];
+    for (let i = 0; i < DIGEST_DAYS; i++) {
+        const day = addDays(startOfDay(now), i);
+        for (const { kind, time, offset, title } of kinds) {
+            if (!time) continue;
+            const fireAt = parse(time, 'HH:mm', day);
+            if (isNaN(fireAt.getTime()) || fireAt <= now) continue;
+
+            const target = addDays(day, offset);
+            const dayEvents = sortDayEvents(filterEventsByDate(events, target));
+            const dayTasks = kind === 'morning' ? tasksForDay(tasks, target) : [];
+            if (dayEvents.length === 0 && dayTasks.length === 0 && settings.skipEmptyDays) continue;
+            const taskLines = dayTasks.map((t) => describeTaskLine(t, target));
+            digests.push({
+                key: `${kind}-${toDateKey(target)}`,
+                fireAt: fireAt.getTime(),
+                title,
+                body: [stripEventRefs(summarizeDay(dayEvents, target)), ...(taskLines.length > 0 ? ['', '✅ やること：', ...taskLines] : [])].join('\n'),
+                date: toDateKey(target),
+            });
+        }
+    }
+    return digests;
+};
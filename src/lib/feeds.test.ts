@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { CalendarEvent } from './calendar';
+import { refreshFeeds, type FeedSubscription } from './feeds';
+
+const ICS = ['BEGIN:VCALENDAR', 'BEGIN:VEVENT', 'UID:new', 'DTSTART:20261020T010000Z', 'SUMMARY:新しい予定', 'END:VEVENT', 'END:VCALENDAR'].join('\r\n');
+
+const feed = (id: string, url: string): FeedSubscription => ({
+    id,
+    name: id,
+    url,
+    color: '#64748b',
+    lastFetched: '2026-10-01T00:00:00.000Z',
+});
+
+const cached: CalendarEvent = { id: 'feed:down:old', title: '前回の予定', date: '2026-10-10T01:00:00.000Z', readOnly: true, feedId: 'down' };
+
+describe('refreshFeeds', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('keeps the last good copy of a feed that fails, and replaces the ones that load', async () => {
+        vi.stubGlobal(
+            'fetch',
+            vi.fn(async (input: string) => {
+                if (input.includes('down.example')) return Response.json({ error: 'upstream responded 500' }, { status: 502 });
+                if (input.includes('offline.example')) throw new TypeError('Failed to fetch');
+                return new Response(ICS);
+            })
+        );
+        const feeds = [feed('down', 'https://down.example/cal.ics'), feed('offline', 'https://offline.example/cal.ics'), feed('up', 'https://up.example/cal.ics')];
+        const result = await refreshFeeds(feeds, { down: [cached], offline: [cached], up: [cached], removed: [cached] });
+
+        expect(result.cache.down).toEqual([cached]);
+        expect(result.cache.offline).toEqual([cached]);
+        expect(result.feeds[0]).toMatchObject({ lastError: 'upstream responded 500', lastFetched: '2026-10-01T00:00:00.000Z' });
+        expect(result.feeds[1]).toMatchObject({ lastError: 'Failed to fetch', lastFetched: '2026-10-01T00:00:00.000Z' });
+
+        expect(result.cache.up).toEqual([
+            expect.objectContaining({ id: 'feed:up:new', title: '新しい予定', readOnly: true, feedId: 'up', reminders: [] }),
+        ]);
+        expect(result.feeds[2].lastError).toBeUndefined();
+        expect(result.feeds[2].lastFetched).not.toBe('2026-10-01T00:00:00.000Z');
+        // Feeds no longer subscribed are dropped from the cache
+        expect(result.cache).not.toHaveProperty('removed');
+    });
+});
@@ -0,0 +1,108 @@
+import type { CalendarEvent } from './calendar';
+import { parseICS } from './ics';
+
+// ------- Subscribed (read-only) ICS feeds -------
+
+export interface FeedSubscription {
+    id: string;
+    name: string;
+    url: string;
+    color: string;
+    lastFetched?: string; // ISO string of the last successful fetch
+    lastError?: string;
+}
+
+interface FeedCache {
+    [feedId: string]: CalendarEvent[];
+}
+
+export const FEED_COLORS = ['#64748b', '#0ea5e9', '#14b8a6', '#d946ef', '#a16207'];
+export const FEED_REFRESH_MS = 60 * 60 * 1000;
+
+// LocalStorage persistence
+const FEEDS_KEY = 'ai-secretary-feeds';
+const FEED_CACHE_KEY = 'ai-secretary-feed-cache';
+
+export const loadFeeds = (): FeedSubscription[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const data = localStorage.getItem(FEEDS_KEY);
+        if (data) return JSON.parse(data);
+    } catch {
+        // ignore
+    }
+    return [];
+};
+
+export const saveFeeds = (feeds: FeedSubscription[]) => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(FEEDS_KEY, JSON.stringify(feeds));
+};
+
+export const loadFeedCache = (): FeedCache => {
+    if (typeof window === 'undefined') return {};
+    try {
+        const data = localStorage.getItem(FEED_CACHE_KEY);
+        if (data) return JSON.parse(data);
+    } catch {
+        // ignore
+    }
+    return {};
+};
+
+export const saveFeedCache = (cache: FeedCache) => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(FEED_CACHE_KEY, JSON.stringify(cache));
+};
+
+/**
+ * Fetches a feed through /api/feeds and returns its events, namespaced by
+ * feed and flagged read-only. Throws on network or parse failure so the
+ * caller can keep the last good copy.
+ */
+export const fetchFeedEvents = async (feed: FeedSubscription): Promise<CalendarEvent[]> => {
+    const response = await fetch(`/api/feeds?url=${encodeURIComponent(feed.url)}`);
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `HTTP ${response.status}`);
+    }
+    const { events } = parseICS(await response.text());
+    return events.map((event) => ({
+        ...event,
+        id: `feed:${feed.id}:${event.id}`,
+        color: feed.color,
+        reminders: [],
+        readOnly: true,
+        feedId: feed.id,
+    }));
+};
+
+/**
+ * Refetches every feed. Feeds that fail keep their cached events and record
+ * the error; successful ones replace their cache entry.
+ */
+export const refreshFeeds = async (
+    feeds: FeedSubscription[],
+    cache: FeedCache
+): Promise<{ feeds: FeedSubscription[]; cache: FeedCache }> => {
+    const nextCache: FeedCache = { ...cache };
+    const nextFeeds = await Promise.all(
+        feeds.map(async (feed) => {
+            try {
+                nextCache[feed.id] = await fetchFeedEvents(feed);
+                return { ...feed, lastFetched: new Date().toISOString(), lastError: undefined };
+            } catch (err) {
+                return { ...feed, lastError: err instanceof Error ? err.message : String(err) };
+            }
+        })
+    );
+    // Drop cache entries of feeds that were removed
+    for (const id of Object.keys(nextCache)) {
+        if (!feeds.some((f) => f.id === id)) delete nextCache[id];
+    }
+    return { feeds: nextFeeds, cache: nextCache };
+};
+
+export const getFeedEvents = (feeds: FeedSubscription[], cache: FeedCache): CalendarEvent[] => {
+    return feeds.flatMap((feed) => (cache[feed.id] ?? []).map((e) => ({ ...e, color: feed.color })));
+};
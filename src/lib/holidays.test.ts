@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { getHolidays } from './holidays';
+
+const list = (year: number) => getHolidays(year).map((h) => `${h.date} ${h.name}`);
+const on = (year: number, monthDay: string) => getHolidays(year).find((h) => h.date === `${year}-${monthDay}`)?.name;
+
+// Checked against the 内閣府 lists of 国民の祝日
+describe('getHolidays', () => {
+    it('matches the 2019 list, with the enthronement days and the 国民の休日 around them', () => {
+        expect(list(2019)).toEqual([
+            '2019-01-01 元日',
+            '2019-01-14 成人の日',
+            '2019-02-11 建国記念の日',
+            '2019-03-21 春分の日',
+            '2019-04-29 昭和の日',
+            '2019-04-30 国民の休日',
+            '2019-05-01 天皇の即位の日',
+            '2019-05-02 国民の休日',
+            '2019-05-03 憲法記念日',
+            '2019-05-04 みどりの日',
+            '2019-05-05 こどもの日',
+            '2019-05-06 振替休日',
+            '2019-07-15 海の日',
+            '2019-08-11 山の日',
+            '2019-08-12 振替休日',
+            '2019-09-16 敬老の日',
+            '2019-09-23 秋分の日',
+            '2019-10-14 体育の日',
+            '2019-10-22 即位礼正殿の儀',
+            '2019-11-03 文化の日',
+            '2019-11-04 振替休日',
+            '2019-11-23 勤労感謝の日',
+        ]);
+    });
+
+    it('matches the 2020 list, with the Olympic moves', () => {
+        expect(list(2020)).toEqual([
+            '2020-01-01 元日',
+            '2020-01-13 成人の日',
+            '2020-02-11 建国記念の日',
+            '2020-02-23 天皇誕生日',
+            '2020-02-24 振替休日',
+            '2020-03-20 春分の日',
+            '2020-04-29 昭和の日',
+            '2020-05-03 憲法記念日',
+            '2020-05-04 みどりの日',
+            '2020-05-05 こどもの日',
+            '2020-05-06 振替休日',
+            '2020-07-23 海の日',
+            '2020-07-24 スポーツの日',
+            '2020-08-10 山の日',
+            '2020-09-21 敬老の日',
+            '2020-09-22 秋分の日',
+            '2020-11-03 文化の日',
+            '2020-11-23 勤労感謝の日',
+        ]);
+    });
+
+    it('matches the 2021 list, with the Olympic moves', () => {
+        expect(list(2021)).toEqual([
+            '2021-01-01 元日',
+            '2021-01-11 成人の日',
+            '2021-02-11 建国記念の日',
+            '2021-02-23 天皇誕生日',
+            '2021-03-20 春分の日',
+            '2021-04-29 昭和の日',
+            '2021-05-03 憲法記念日',
+            '2021-05-04 みどりの日',
+            '2021-05-05 こどもの日',
+            '2021-07-22 海の日',
+            '2021-07-23 スポーツの日',
+            '2021-08-08 山の日',
+            '2021-08-09 振替休日',
+            '2021-09-20 敬老の日',
+            '2021-09-23 秋分の日',
+            '2021-11-03 文化の日',
+            '2021-11-23 勤労感謝の日',
+        ]);
+    });
+
+    it('matches the 2025 list', () => {
+        expect(list(2025)).toEqual([
+            '2025-01-01 元日',
+            '2025-01-13 成人の日',
+            '2025-02-11 建国記念の日',
+            '2025-02-23 天皇誕生日',
+            '2025-02-24 振替休日',
+            '2025-03-20 春分の日',
+            '2025-04-29 昭和の日',
+            '2025-05-03 憲法記念日',
+            '2025-05-04 みどりの日',
+            '2025-05-05 こどもの日',
+            '2025-05-06 振替休日',
+            '2025-07-21 海の日',
+            '2025-08-11 山の日',
+            '2025-09-15 敬老の日',
+            '2025-09-23 秋分の日',
+            '2025-10-13 スポーツの日',
+            '2025-11-03 文化の日',
+            '2025-11-23 勤労感謝の日',
+            '2025-11-24 振替休日',
+        ]);
+    });
+
+    it('moves holidays to Mondays from the ハッピーマンデー years on', () => {
+        expect(on(1999, '01-15')).toBe('成人の日');
+        expect(on(2000, '01-10')).toBe('成人の日');
+        expect(on(1999, '10-10')).toBe('体育の日');
+        expect(on(2000, '10-09')).toBe('体育の日');
+        expect(on(2002, '07-20')).toBe('海の日');
+        expect(on(2003, '07-21')).toBe('海の日');
+        expect(on(2002, '09-15')).toBe('敬老の日');
+        expect(on(2003, '09-15')).toBe('敬老の日');
+        expect(on(2004, '09-20')).toBe('敬老の日');
+    });
+
+    it('gives 振替休日 only on the next day until 2006, and on the next free day since 2007', () => {
+        expect(on(2006, '01-02')).toBe('振替休日');
+        // 1998-05-03 was a Sunday and the Monday already a 国民の休日
+        expect(list(1998).filter((h) => h.startsWith('1998-05'))).toEqual([
+            '1998-05-03 憲法記念日',
+            '1998-05-04 国民の休日',
+            '1998-05-05 こどもの日',
+        ]);
+        expect(on(2008, '05-06')).toBe('振替休日');
+        expect(on(2009, '05-06')).toBe('振替休日');
+        expect(on(1973, '04-30')).toBe('振替休日');
+        // Before the substitute law took effect on 1973-04-12
+        expect(on(1973, '02-12')).toBeUndefined();
+    });
+
+    it('makes a day between two holidays a 国民の休日', () => {
+        expect(list(2009).filter((h) => h.startsWith('2009-09'))).toEqual([
+            '2009-09-21 敬老の日',
+            '2009-09-22 国民の休日',
+            '2009-09-23 秋分の日',
+        ]);
+        expect(on(2015, '09-22')).toBe('国民の休日');
+        expect(on(2026, '09-22')).toBe('国民の休日');
+        expect(on(2006, '05-04')).toBe('国民の休日');
+    });
+
+    it('is empty outside the years it covers', () => {
+        expect(getHolidays(1948)).toEqual([]);
+        expect(getHolidays(2100)).toEqual([]);
+    });
+});
@@ -0,0 +1,146 @@
+import { addDays, eachDayOfInterval, format, getDay, isSameMonth, parseISO } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import { toDateKey } from './recurrence';
+
+// ------- 国民の祝日 -------
+// Computed offline from the 祝日法 as amended up to 2021 (the Olympic moves);
+// later amendments need a change here. Covers 1949–2099.
+
+export interface Holiday {
+    date: string; // yyyy-MM-dd
+    name: string;
+}
+
+export const HOLIDAY_YEARS = { from: 1949, to: 2099 };
+
+// The equinox days by the usual approximation, valid 1900–2099. The official
+// dates are announced each February for the following year.
+export const vernalEquinoxDay = (year: number) =>
+    year < 1980
+        ? Math.floor(20.8357 + 0.242194 * (year - 1980) - Math.floor((year - 1983) / 4))
+        : Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+
+export const autumnalEquinoxDay = (year: number) =>
+    year < 1980
+        ? Math.floor(23.2588 + 0.242194 * (year - 1980) - Math.floor((year - 1983) / 4))
+        : Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+
+// The nth Monday of a month (1-based month), for the ハッピーマンデー holidays
+const nthMonday = (year: number, month: number, n: number) => {
+    const first = new Date(year, month - 1, 1);
+    return 1 + ((8 - getDay(first)) % 7) + (n - 1) * 7;
+};
+
+// One-off holidays for imperial ceremonies
+const SPECIAL_HOLIDAYS: Holiday[] = [
+    { date: '1959-04-10', name: '皇太子明仁親王の結婚の儀' },
+    { date: '1989-02-24', name: '昭和天皇の大喪の礼' },
+    { date: '1990-11-12', name: '即位礼正殿の儀' },
+    { date: '1993-06-09', name: '皇太子徳仁親王の結婚の儀' },
+    { date: '2019-05-01', name: '天皇の即位の日' },
+    { date: '2019-10-22', name: '即位礼正殿の儀' },
+];
+
+// The named holidays of a year, before 振替休日 and 国民の休日
+const namedHolidays = (year: number): Holiday[] => {
+    const list: [number, number, string][] = [];
+    const add = (month: number, day: number, name: string) => list.push([month, day, name]);
+
+    add(1, 1, '元日');
+    if (year >= 2000) add(1, nthMonday(year, 1, 2), '成人の日');
+    else add(1, 15, '成人の日');
+    if (year >= 1967) add(2, 11, '建国記念の日');
+    if (year >= 2020) add(2, 23, '天皇誕生日');
+    add(3, vernalEquinoxDay(year), '春分の日');
+    if (year >= 2007) add(4, 29, '昭和の日');
+    else if (year >= 1989) add(4, 29, 'みどりの日');
+    else add(4, 29, '天皇誕生日');
+    add(5, 3, '憲法記念日');
+    if (year >= 2007) add(5, 4, 'みどりの日');
+    add(5, 5, 'こどもの日');
+    if (year === 2020) add(7, 23, '海の日');
+    else if (year === 2021) add(7, 22, '海の日');
+    else if (year >= 2003) add(7, nthMonday(year, 7, 3), '海の日');
+    else if (year >= 1996) add(7, 20, '海の日');
+    if (year === 2020) add(8, 10, '山の日');
+    else if (year === 2021) add(8, 8, '山の日');
+    else if (year >= 2016) add(8, 11, '山の日');
+    if (year >= 2003) add(9, nthMonday(year, 9, 3), '敬老の日');
+    else if (year >= 1966) add(9, 15, '敬老の日');
+    add(9, autumnalEquinoxDay(year), '秋分の日');
+    if (year === 2020) add(7, 24, 'スポーツの日');
+    else if (year === 2021) add(7, 23, 'スポーツの日');
+    else if (year >= 2020) add(10, nthMonday(year, 10, 2), 'スポーツの日');
+    else if (year >= 2000) add(10, nthMonday(year, 10, 2), '体育の日');
+    else if (year >= 1966) add(10, 10, '体育の日');
+    add(11, 3, '文化の日');
+    add(11, 23, '勤労感謝の日');
+    if (year >= 1989 && year <= 2018) add(12, 23, '天皇誕生日');
+
+    return [
+        ...list.map(([month, day, name]) => ({ date: toDateKey(new Date(year, month - 1, day)), name })),
+        ...SPECIAL_HOLIDAYS.filter((h) => h.date.startsWith(`${year}-`)),
+    ];
+};
+
+const cache = new Map<number, Holiday[]>();
+
+/**
+ * Every holiday of `year` in date order: the named ones plus
+ * 国民の休日 (a weekday between two of them, from 1988) and 振替休日 (for one
+ * on a Sunday: the Monday until 2006, the next free day since 2007).
+ */
+export const getHolidays = (year: number): Holiday[] => {
+    if (year < HOLIDAY_YEARS.from || year > HOLIDAY_YEARS.to) return [];
+    const cached = cache.get(year);
+    if (cached) return cached;
+
+    const named = namedHolidays(year);
+    const byDate = new Map(named.map((h) => [h.date, h.name]));
+    const namedDates = new Set(byDate.keys());
+    const isNamed = (d: Date) => namedDates.has(toDateKey(d));
+
+    if (year >= 1988) {
+        for (const day of eachDayOfInterval({ start: new Date(year, 0, 2), end: new Date(year, 11, 30) })) {
+            if (isNamed(day) || (year < 2007 && getDay(day) === 0)) continue;
+            if (isNamed(addDays(day, -1)) && isNamed(addDays(day, 1))) byDate.set(toDateKey(day), '国民の休日');
+        }
+    }
+    if (year >= 1973) {
+        for (const holiday of named) {
+            const day = parseISO(holiday.date);
+            // The substitute law took effect on 1973-04-12
+            if (getDay(day) !== 0 || holiday.date < '1973-04-12') continue;
+            let substitute = addDays(day, 1);
+            if (year >= 2007) {
+                while (byDate.has(toDateKey(substitute))) substitute = addDays(substitute, 1);
+            } else if (byDate.has(toDateKey(substitute))) {
+                continue;
+            }
+            byDate.set(toDateKey(substitute), '振替休日');
+        }
+    }
+
+    const holidays = [...byDate.entries()]
+        .map(([date, name]) => ({ date, name }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    cache.set(year, holidays);
+    return holidays;
+};
+
+// The holiday's name, or undefined on an ordinary day
+export const getHoliday = (day: Date) => getHolidays(day.getFullYear()).find((h) => h.date === toDateKey(day))?.name;
+
+export const getHolidaysBetween = (from: Date, to: Date): Holiday[] => {
+    const start = toDateKey(from);
+    const end = toDateKey(to);
+    const years = Array.from({ length: to.getFullYear() - from.getFullYear() + 1 }, (_, i) => from.getFullYear() + i);
+    return years.flatMap(getHolidays).filter((h) => h.date >= start && h.date <= end);
+};
+
+export const getHolidaysInMonth = (month: Date) =>
+    getHolidays(month.getFullYear()).filter((h) => isSameMonth(parseISO(h.date), month));
+
+// 「10月12日(月) スポーツの日」
+export const describeHoliday = (holiday: Holiday) =>
+    `${format(parseISO(holiday.date), 'M月d日(E)', { locale: ja })} ${holiday.name}`;
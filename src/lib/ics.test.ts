@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import type { CalendarEvent } from './calendar';
+import { exportICS, parseICS } from './ics';
+
+const roundTrip = (event: CalendarEvent) => {
+    const { events, warnings } = parseICS(exportICS([event]));
+    expect(warnings).toEqual([]);
+    expect(events).toHaveLength(1);
+    return events[0];
+};
+
+const calendar = (...vevent: string[]) =>
+    ['BEGIN:VCALENDAR', 'VERSION:2.0', ...vevent, 'END:VCALENDAR'].join('\r\n');
+
+describe('exportICS → parseICS', () => {
+    it('keeps a timed event with an escaped description and reminders', () => {
+        const event: CalendarEvent = {
+            id: 'a1',
+            title: '打ち合わせ; 第2回, 資料あり',
+            date: '2026-10-20T06:00:00.000Z',
+            end: '2026-10-20T07:30:00.000Z',
+            description: '1行目\n2行目 \\ 末尾',
+            reminders: [10, 0],
+        };
+        expect(roundTrip(event)).toEqual(event);
+    });
+
+    it('keeps a weekly TZID series with until and exdates', () => {
+        const event: CalendarEvent = {
+            id: 'w1',
+            title: 'NY standup',
+            // 9:00 in New York, across the November DST change
+            date: '2026-10-26T13:00:00.000Z',
+            end: '2026-10-26T13:15:00.000Z',
+            timeZone: 'America/New_York',
+            recurrence: { frequency: 'weekly', weekdays: [1, 3], until: '2026-11-30', exdates: ['2026-11-02', '2026-11-04'] },
+        };
+        const ics = exportICS([event]);
+        expect(ics).toContain('DTSTART;TZID=America/New_York:20261026T090000');
+        expect(ics).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261130T140000Z');
+        expect(ics).toContain('EXDATE;TZID=America/New_York:20261102T090000');
+        expect(roundTrip(event)).toEqual(event);
+    });
+
+    it('keeps a multi-day all-day series, with a DATE until', () => {
+        const event: CalendarEvent = {
+            id: 'd1',
+            title: '夏休み',
+            date: new Date(2026, 7, 13).toISOString(),
+            end: new Date(2026, 7, 15).toISOString(),
+            allDay: true,
+            recurrence: { frequency: 'yearly', until: '2030-12-31', exdates: ['2028-08-13'] },
+        };
+        const ics = exportICS([event]);
+        expect(ics).toContain('DTSTART;VALUE=DATE:20260813');
+        expect(ics).toContain('DTEND;VALUE=DATE:20260816');
+        expect(ics).toContain('RRULE:FREQ=YEARLY;UNTIL=20301231\r\n');
+        expect(ics).toContain('EXDATE;VALUE=DATE:20280813');
+        expect(roundTrip(event)).toEqual(event);
+    });
+
+    it('keeps count-limited and interval rules', () => {
+        const event: CalendarEvent = {
+            id: 'c1',
+            title: '隔週ジム',
+            date: '2026-10-19T10:00:00.000Z',
+            recurrence: { frequency: 'weekly', interval: 2, weekdays: [1], count: 5 },
+        };
+        expect(roundTrip(event)).toEqual(event);
+    });
+});
+
+describe('parseICS', () => {
+    it('turns a RECURRENCE-ID instance into its own event and skips its slot in the series', () => {
+        const { events } = parseICS(
+            calendar(
+                'BEGIN:VEVENT',
+                'UID:s1',
+                'DTSTART;TZID=Asia/Tokyo:20261019T100000',
+                'DTEND;TZID=Asia/Tokyo:20261019T110000',
+                'RRULE:FREQ=WEEKLY;COUNT=4',
+                'SUMMARY:定例',
+                'END:VEVENT',
+                'BEGIN:VEVENT',
+                'UID:s1',
+                'RECURRENCE-ID;TZID=Asia/Tokyo:20261026T100000',
+                'DTSTART;TZID=Asia/Tokyo:20261027T140000',
+                'DTEND;TZID=Asia/Tokyo:20261027T150000',
+                'SUMMARY:定例（振替）',
+                'END:VEVENT'
+            )
+        );
+        expect(events).toHaveLength(2);
+        expect(events.find((e) => e.id === 's1')?.recurrence).toEqual({ frequency: 'weekly', count: 4, exdates: ['2026-10-26'] });
+        expect(events.find((e) => e.id === 's1_2026-10-26')).toMatchObject({
+            title: '定例（振替）',
+            date: '2026-10-27T05:00:00.000Z',
+            timeZone: 'Asia/Tokyo',
+        });
+    });
+
+    it('reads Windows zone names and DURATION', () => {
+        const { events } = parseICS(
+            calendar(
+                'BEGIN:VEVENT',
+                'UID:o1',
+                'DTSTART;TZID=Pacific Standard Time:20260115T090000',
+                'DURATION:PT1H30M',
+                'SUMMARY:Outlook',
+                'END:VEVENT'
+            )
+        );
+        expect(events[0]).toMatchObject({
+            date: '2026-01-15T17:00:00.000Z',
+            end: '2026-01-15T18:30:00.000Z',
+            timeZone: 'America/Los_Angeles',
+        });
+    });
+
+    it('accepts BYMONTH on a yearly rule only when it is the start month', () => {
+        const yearly = (bymonth: string) =>
+            parseICS(
+                calendar('BEGIN:VEVENT', 'UID:y1', 'DTSTART;VALUE=DATE:20260315', `RRULE:FREQ=YEARLY;BYMONTH=${bymonth}`, 'SUMMARY:記念日', 'END:VEVENT')
+            );
+        expect(yearly('3')).toMatchObject({ events: [{ recurrence: { frequency: 'yearly' } }], warnings: [] });
+
+        const other = yearly('3,9');
+        expect(other.events[0].recurrence).toBeUndefined();
+        expect(other.warnings).toHaveLength(1);
+    });
+});
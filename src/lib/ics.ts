@@ -0,0 +1,399 @@
+import { format, addDays, parseISO } from 'date-fns';
+import type { CalendarEvent } from './calendar';
+import { getOccurrences, occurrenceKey, type RecurrenceFrequency, type RecurrenceRule } from './recurrence';
+import { fromZonedTime, isValidTimeZone, toZonedTime } from './timezone';
+
+// ------- iCalendar (RFC 5545) import / export -------
+
+export interface ICSImportResult {
+    events: CalendarEvent[];
+    warnings: string[];
+}
+
+const PRODID = '-//AI Secretary//JA';
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQ_TO_ICS: Record<RecurrenceFrequency, string> = {
+    daily: 'DAILY',
+    weekly: 'WEEKLY',
+    monthly: 'MONTHLY',
+    yearly: 'YEARLY',
+};
+
+// Outlook writes Windows zone names instead of IANA ids
+const WINDOWS_ZONES: Record<string, string> = {
+    'Tokyo Standard Time': 'Asia/Tokyo',
+    'Korea Standard Time': 'Asia/Seoul',
+    'China Standard Time': 'Asia/Shanghai',
+    'Singapore Standard Time': 'Asia/Singapore',
+    'GMT Standard Time': 'Europe/London',
+    'W. Europe Standard Time': 'Europe/Berlin',
+    'Romance Standard Time': 'Europe/Paris',
+    'Eastern Standard Time': 'America/New_York',
+    'Central Standard Time': 'America/Chicago',
+    'Mountain Standard Time': 'America/Denver',
+    'Pacific Standard Time': 'America/Los_Angeles',
+    'UTC': 'UTC',
+};
+
+// ---- Text helpers ----
+
+const escapeText = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+    value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+
+// Lines longer than 75 octets are folded with CRLF + space
+const foldLine = (line: string) => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    for (const ch of line) {
+        const limit = parts.length === 0 ? 75 : 74;
+        if (encoder.encode(current + ch).length > limit) {
+            parts.push(current);
+            current = ch;
+        } else {
+            current += ch;
+        }
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const toUTCStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Wall-clock time in the zone, for DTSTART;TZID=...
+const toZonedStamp = (date: Date, zone: string) => format(toZonedTime(date, zone), "yyyyMMdd'T'HHmmss");
+
+// ---- Export ----
+
+const buildRRule = (rule: RecurrenceRule, start: Date, allDay: boolean, zone?: string) => {
+    const parts = [`FREQ=${FREQ_TO_ICS[rule.frequency]}`];
+    if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.frequency === 'weekly' && rule.weekdays && rule.weekdays.length > 0) {
+        parts.push(`BYDAY=${rule.weekdays.map((d) => WEEKDAY_CODES[d]).join(',')}`);
+    }
+    if (rule.until && allDay) {
+        // UNTIL must match DTSTART's value type: a plain DATE for all-day series
+        parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+    } else if (rule.until) {
+        // UNTIL is inclusive: the end of that day, keeping the start's time of day
+        const until = parseISO(rule.until);
+        const wallStart = zone ? toZonedTime(start, zone) : start;
+        until.setHours(wallStart.getHours(), wallStart.getMinutes());
+        parts.push(`UNTIL=${toUTCStamp(zone ? fromZonedTime(until, zone) : until)}`);
+    } else if (rule.count) {
+        parts.push(`COUNT=${rule.count}`);
+    }
+    return parts.join(';');
+};
+
+const buildVEvent = (event: CalendarEvent, stamp: string): string[] => {
+    const start = new Date(event.date);
+    const lines = ['BEGIN:VEVENT', `UID:${event.id}`, `DTSTAMP:${stamp}`];
+
+    if (event.allDay) {
+        const end = event.end ? new Date(event.end) : start;
+        lines.push(`DTSTART;VALUE=DATE:${format(start, 'yyyyMMdd')}`);
+        lines.push(`DTEND;VALUE=DATE:${format(addDays(end, 1), 'yyyyMMdd')}`);
+    } else if (event.timeZone) {
+        lines.push(`DTSTART;TZID=${event.timeZone}:${toZonedStamp(start, event.timeZone)}`);
+        if (event.end) lines.push(`DTEND;TZID=${event.timeZone}:${toZonedStamp(new Date(event.end), event.timeZone)}`);
+    } else {
+        lines.push(`DTSTART:${toUTCStamp(start)}`);
+        if (event.end) lines.push(`DTEND:${toUTCStamp(new Date(event.end))}`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.title)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.color) lines.push(`COLOR:${event.color}`);
+
+    if (event.recurrence) {
+        const zone = event.allDay ? undefined : event.timeZone;
+        lines.push(`RRULE:${buildRRule(event.recurrence, start, !!event.allDay, zone)}`);
+        const wallStart = zone ? toZonedTime(start, zone) : start;
+        for (const key of event.recurrence.exdates ?? []) {
+            const exdate = parseISO(key);
+            exdate.setHours(wallStart.getHours(), wallStart.getMinutes());
+            if (event.allDay) lines.push(`EXDATE;VALUE=DATE:${key.replace(/-/g, '')}`);
+            else if (zone) lines.push(`EXDATE;TZID=${zone}:${format(exdate, "yyyyMMdd'T'HHmmss")}`);
+            else lines.push(`EXDATE:${toUTCStamp(exdate)}`);
+        }
+    }
+
+    for (const minutes of event.reminders ?? []) {
+        lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(event.title)}`);
+        lines.push(minutes === 0 ? 'TRIGGER:PT0M' : `TRIGGER:-PT${minutes}M`, 'END:VALARM');
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+};
+
+/**
+ * Serializes events as an RFC 5545 calendar. With a range, only events that
+ * have an occurrence inside it are included (recurring ones as whole series).
+ */
+export const exportICS = (events: CalendarEvent[], range?: { from: Date; to: Date }): string => {
+    const stamp = toUTCStamp(new Date());
+    const selected = range ? events.filter((e) => getOccurrences(e, range.from, range.to).length > 0) : events;
+
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+    for (const event of selected) lines.push(...buildVEvent(event, stamp));
+    lines.push('END:VCALENDAR');
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// ---- Import ----
+
+interface ICSProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+interface ICSComponent {
+    type: string;
+    props: ICSProperty[];
+    children: ICSComponent[];
+}
+
+const unfoldLines = (text: string) => text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter((l) => l.length > 0);
+
+const parseProperty = (line: string): ICSProperty | null => {
+    // The value starts at the first colon outside a quoted parameter
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ':' && !inQuotes) {
+            colon = i;
+            break;
+        }
+    }
+    if (colon < 0) return null;
+
+    const [name, ...rawParams] = line.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    const params: Record<string, string> = {};
+    for (const raw of rawParams) {
+        const eq = raw.indexOf('=');
+        if (eq > 0) params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const parseComponents = (text: string): ICSComponent[] => {
+    const root: ICSComponent = { type: 'ROOT', props: [], children: [] };
+    const stack = [root];
+    for (const line of unfoldLines(text)) {
+        const prop = parseProperty(line);
+        if (!prop) continue;
+        const current = stack[stack.length - 1];
+        if (prop.name === 'BEGIN') {
+            const child: ICSComponent = { type: prop.value.toUpperCase(), props: [], children: [] };
+            current.children.push(child);
+            stack.push(child);
+        } else if (prop.name === 'END') {
+            if (stack.length > 1) stack.pop();
+        } else {
+            current.props.push(prop);
+        }
+    }
+    return root.children;
+};
+
+const resolveZone = (tzid: string | undefined) => {
+    if (!tzid) return null;
+    const zone = WINDOWS_ZONES[tzid] ?? tzid.replace(/^\//, '');
+    return isValidTimeZone(zone) ? zone : null;
+};
+
+/**
+ * Parses DATE or DATE-TIME values. UTC ("Z") and TZID times become absolute
+ * instants, the latter keeping their zone; floating times and unknown zones
+ * are read as device-local.
+ */
+const parseICSDate = (prop: ICSProperty): { date: Date; allDay: boolean; timeZone?: string } | null => {
+    const m = prop.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!m) return null;
+    const [, y, mo, d, h, mi, sec, utc] = m;
+
+    if (!h || prop.params.VALUE === 'DATE') {
+        return { date: new Date(+y, +mo - 1, +d), allDay: true };
+    }
+    const wall = Date.UTC(+y, +mo - 1, +d, +h, +mi, +(sec ?? 0));
+    if (utc) return { date: new Date(wall), allDay: false };
+
+    const zone = resolveZone(prop.params.TZID);
+    const local = new Date(+y, +mo - 1, +d, +h, +mi, +(sec ?? 0));
+    if (!zone) return { date: local, allDay: false };
+    return { date: fromZonedTime(local, zone), allDay: false, timeZone: zone };
+};
+
+const parseDuration = (value: string) => {
+    const m = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!m) return null;
+    const [, sign, w, d, h, mi, s] = m;
+    const minutes = (+(w ?? 0) * 7 + +(d ?? 0)) * 1440 + +(h ?? 0) * 60 + +(mi ?? 0) + Math.round(+(s ?? 0) / 60);
+    return sign === '-' ? -minutes : minutes;
+};
+
+const parseRRule = (value: string, start: Date, zone?: string): RecurrenceRule | null => {
+    const parts = Object.fromEntries(
+        value.split(';').map((p) => {
+            const [k, v] = p.split('=');
+            return [k.toUpperCase(), v ?? ''];
+        })
+    );
+    const frequency = (Object.keys(FREQ_TO_ICS) as RecurrenceFrequency[]).find((f) => FREQ_TO_ICS[f] === parts.FREQ);
+    if (!frequency) return null;
+
+    // Only plain weekday lists are supported; 「第2火曜」 style rules are not
+    const unsupported = ['BYSETPOS', 'BYMONTHDAY', 'BYYEARDAY', 'BYWEEKNO', 'BYHOUR', 'BYMINUTE'];
+    if (unsupported.some((k) => k in parts)) return null;
+    // BYMONTH is only kept when it just restates the start's month, which yearly rules repeat anyway
+    if (parts.BYMONTH) {
+        const wallStart = zone ? toZonedTime(start, zone) : start;
+        if (frequency !== 'yearly' || parts.BYMONTH !== String(wallStart.getMonth() + 1)) return null;
+    }
+
+    const rule: RecurrenceRule = { frequency };
+    if (parts.INTERVAL && +parts.INTERVAL > 1) rule.interval = +parts.INTERVAL;
+    if (parts.BYDAY) {
+        if (frequency !== 'weekly') return null;
+        const days = parts.BYDAY.split(',').map((code: string) => WEEKDAY_CODES.indexOf(code));
+        if (days.some((d: number) => d < 0)) return null;
+        rule.weekdays = days;
+    }
+    if (parts.UNTIL) {
+        const until = parseICSDate({ name: 'UNTIL', params: {}, value: parts.UNTIL });
+        if (until) rule.until = occurrenceKey({ timeZone: zone }, until.date < start ? start : until.date);
+    }
+    if (parts.COUNT) rule.count = +parts.COUNT;
+    return rule;
+};
+
+const getProp = (component: ICSComponent, name: string) => component.props.find((p) => p.name === name);
+
+/**
+ * Parses an .ics file from Google Calendar, Outlook or Apple Calendar.
+ * UID becomes the event id so re-importing the same file updates in place.
+ * Modified instances (RECURRENCE-ID) become standalone events and are
+ * excluded from their series.
+ */
+export const parseICS = (text: string): ICSImportResult => {
+    const warnings: string[] = [];
+    const vevents = parseComponents(text)
+        .filter((c) => c.type === 'VCALENDAR')
+        .flatMap((c) => c.children)
+        .filter((c) => c.type === 'VEVENT');
+
+    const byId = new Map<string, CalendarEvent>();
+    const overrides: { uid: string; key: string }[] = [];
+
+    for (const vevent of vevents) {
+        const summary = getProp(vevent, 'SUMMARY');
+        const dtstartProp = getProp(vevent, 'DTSTART');
+        const start = dtstartProp && parseICSDate(dtstartProp);
+        if (!start) {
+            warnings.push(`開始日時を読み取れない予定をスキップしました: ${summary ? unescapeText(summary.value) : '(無題)'}`);
+            continue;
+        }
+        if (getProp(vevent, 'STATUS')?.value.toUpperCase() === 'CANCELLED') continue;
+
+        const uid = getProp(vevent, 'UID')?.value ?? crypto.randomUUID();
+        const recurrenceIdProp = getProp(vevent, 'RECURRENCE-ID');
+        const recurrenceId = recurrenceIdProp && parseICSDate(recurrenceIdProp);
+        const recurrenceKey = recurrenceId && occurrenceKey(recurrenceId, recurrenceId.date);
+        const id = recurrenceKey ? `${uid}_${recurrenceKey}` : uid;
+        if (recurrenceKey) overrides.push({ uid, key: recurrenceKey });
+
+        const event: CalendarEvent = {
+            id,
+            title: summary ? unescapeText(summary.value).trim() || '(無題)' : '(無題)',
+            date: start.date.toISOString(),
+        };
+        if (start.timeZone) event.timeZone = start.timeZone;
+
+        const description = getProp(vevent, 'DESCRIPTION');
+        if (description && description.value.trim()) event.description = unescapeText(description.value).trim();
+
+        const color = getProp(vevent, 'COLOR');
+        if (color) event.color = color.value.toLowerCase();
+
+        // All-day DTEND is exclusive: the last day is the one before it
+        const dtendProp = getProp(vevent, 'DTEND');
+        const dtend = dtendProp && parseICSDate(dtendProp);
+        const duration = getProp(vevent, 'DURATION');
+        if (start.allDay) {
+            event.allDay = true;
+            const lastDay = dtend ? addDays(dtend.date, -1) : start.date;
+            if (lastDay > start.date) event.end = lastDay.toISOString();
+        } else if (dtend && dtend.date > start.date) {
+            event.end = dtend.date.toISOString();
+        } else if (duration) {
+            const minutes = parseDuration(duration.value);
+            if (minutes && minutes > 0) event.end = new Date(start.date.getTime() + minutes * 60000).toISOString();
+        }
+
+        const rrule = getProp(vevent, 'RRULE');
+        if (rrule && !recurrenceId) {
+            const rule = parseRRule(rrule.value, start.date, start.timeZone);
+            if (rule) {
+                const exdates = vevent.props
+                    .filter((p) => p.name === 'EXDATE')
+                    .flatMap((p) => p.value.split(',').map((value) => parseICSDate({ ...p, value })))
+                    .filter((d): d is { date: Date; allDay: boolean } => !!d)
+                    .map((d) => occurrenceKey(event, d.date));
+                if (exdates.length > 0) rule.exdates = exdates;
+                event.recurrence = rule;
+            } else {
+                warnings.push(`「${event.title}」の繰り返しルールには対応していないため、初回のみ取り込みました`);
+            }
+        }
+
+        const reminders = vevent.children
+            .filter((c) => c.type === 'VALARM')
+            .map((alarm) => getProp(alarm, 'TRIGGER'))
+            .filter((t): t is ICSProperty => !!t && t.params.VALUE !== 'DATE-TIME')
+            .map((t) => parseDuration(t.value))
+            .filter((m): m is number => m !== null && m <= 0)
+            .map((m) => -m);
+        if (reminders.length > 0) event.reminders = Array.from(new Set(reminders));
+
+        byId.set(id, event);
+    }
+
+    // Instances moved or edited in the source calendar replace their original slot
+    for (const { uid, key } of overrides) {
+        const master = byId.get(uid);
+        if (!master?.recurrence) continue;
+        const exdates = Array.from(new Set([...(master.recurrence.exdates ?? []), key]));
+        byId.set(uid, { ...master, recurrence: { ...master.recurrence, exdates } });
+    }
+
+    return { events: Array.from(byId.values()), warnings };
+};
+
+/**
+ * Merges imported events into the current list by id (UID). Existing events
+ * are updated in place, new ones appended.
+ */
+export const mergeImportedEvents = (
+    current: CalendarEvent[],
+    imported: CalendarEvent[]
+): { events: CalendarEvent[]; added: number; updated: number } => {
+    const incoming = new Map(imported.map((e) => [e.id, e]));
+    let updated = 0;
+    const events = current.map((e) => {
+        const next = incoming.get(e.id);
+        if (!next) return e;
+        incoming.delete(e.id);
+        updated++;
+        // Keep local-only fields the file does not carry
+        return { ...next, color: next.color ?? e.color, reminders: next.reminders ?? e.reminders, doneDates: e.doneDates };
+    });
+    return { events: [...events, ...incoming.values()], added: incoming.size, updated };
+};
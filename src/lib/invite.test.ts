@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import type { CalendarEvent } from './calendar';
+import { MAX_INVITE_LENGTH, createInviteUrl, findDuplicateEvent, parseInvite } from './invite';
+
+const BASE = 'https://app.example/';
+
+const hashOf = (url: string) => url.slice(url.indexOf('#'));
+const hashFor = (data: unknown) => `#invite=${Buffer.from(JSON.stringify(data)).toString('base64url')}`;
+
+const dinner: CalendarEvent = {
+    id: 'e1',
+    title: '食事会',
+    date: '2026-10-23T10:00:00.000Z',
+    end: '2026-10-23T12:00:00.000Z',
+    timeZone: 'Asia/Tokyo',
+    description: '渋谷 19:00 集合',
+    tags: ['友人'],
+    color: 'red',
+    categoryId: 'private',
+    reminders: [30],
+    recurrence: { frequency: 'monthly', count: 3 },
+};
+
+describe('createInviteUrl → parseInvite', () => {
+    it('brings back the shared fields, leaving the sender’s own ones behind', () => {
+        const url = createInviteUrl(dinner, BASE);
+        expect(url.startsWith(`${BASE}#invite=`)).toBe(true);
+        expect(parseInvite(hashOf(url))).toEqual({
+            title: dinner.title,
+            date: dinner.date,
+            end: dinner.end,
+            timeZone: dinner.timeZone,
+            description: dinner.description,
+            tags: dinner.tags,
+            recurrence: dinner.recurrence,
+        });
+    });
+
+    it('keeps an all-day event on the same days', () => {
+        const trip: CalendarEvent = {
+            id: 't',
+            title: '旅行',
+            date: new Date(2026, 10, 21).toISOString(),
+            end: new Date(2026, 10, 23).toISOString(),
+            allDay: true,
+        };
+        const hash = hashOf(createInviteUrl(trip, BASE));
+        expect(Buffer.from(hash.replace('#invite=', ''), 'base64url').toString()).toContain('"date":"2026-11-21"');
+        expect(parseInvite(hash)).toEqual({ title: '旅行', date: trip.date, end: trip.end, allDay: true });
+    });
+
+    it('returns null when there is no invite in the hash', () => {
+        expect(parseInvite('')).toBeNull();
+        expect(parseInvite('#date=2026-10-20')).toBeNull();
+    });
+});
+
+describe('size limit', () => {
+    it('refuses to create a link that is too long to share', () => {
+        expect(() => createInviteUrl({ ...dinner, description: 'あ'.repeat(MAX_INVITE_LENGTH) }, BASE)).toThrow('内容が長すぎて共有できません');
+    });
+
+    it('rejects an oversized payload before decoding it', () => {
+        expect(() => parseInvite(`#invite=${'A'.repeat(MAX_INVITE_LENGTH + 1)}`)).toThrow('招待リンクが長すぎます');
+    });
+});
+
+describe('parseInvite rejects', () => {
+    it.each([
+        ['characters outside base64url', '#invite=abc+/='],
+        ['a cut-off payload', hashFor({ v: 1, event: { title: '会議' } }).slice(0, 20)],
+        ['bytes that are not UTF-8', `#invite=${Buffer.from([0xff, 0xfe, 0xfd]).toString('base64url')}`],
+        ['text that is not JSON', `#invite=${Buffer.from('not json').toString('base64url')}`],
+    ])('%s', (_, hash) => {
+        expect(() => parseInvite(hash)).toThrow('招待リンクが途中で切れているか、壊れています');
+    });
+
+    it.each([
+        ['no version', { event: { title: '会議', date: dinner.date } }],
+        ['an array for the event', { v: 1, event: [] }],
+        ['a bare value', 'hello'],
+    ])('JSON of the wrong shape: %s', (_, data) => {
+        expect(() => parseInvite(hashFor(data))).toThrow('招待リンクの形式が正しくありません');
+    });
+
+    it('an invite from a newer version of the app', () => {
+        expect(() => parseInvite(hashFor({ v: 2, event: { title: '会議', date: dinner.date } }))).toThrow('新しいバージョン');
+    });
+
+    it.each([
+        ['an unreadable date', { title: '会議', date: 'someday' }],
+        ['a blank title', { title: '  ', date: dinner.date }],
+        ['a broken recurrence', { title: '会議', date: dinner.date, recurrence: { frequency: 'hourly' } }],
+        ['an unknown time zone', { title: '会議', date: dinner.date, timeZone: 'Mars/Olympus' }],
+    ])('an event with %s', (_, event) => {
+        expect(() => parseInvite(hashFor({ v: 1, event }))).toThrow('招待リンクの予定を読み込めませんでした');
+    });
+
+    it('an event that ends before it starts', () => {
+        const event = { title: '会議', date: dinner.end, end: dinner.date };
+        expect(() => parseInvite(hashFor({ v: 1, event }))).toThrow('終了が開始より前です');
+    });
+
+    it('drops fields that are not shared', () => {
+        const event = { title: '会議', date: dinner.date, id: 'mine', readOnly: true, feedId: 'f', doneDates: ['2026-10-23'] };
+        expect(parseInvite(hashFor({ v: 1, event }))).toEqual({ title: '会議', date: dinner.date });
+    });
+});
+
+describe('findDuplicateEvent', () => {
+    const calendar: CalendarEvent[] = [
+        { id: 'x', title: 'ＡＢＣ会議', date: '2026-10-23T01:00:00.000Z' },
+        { id: 'w', title: '定例', date: '2026-10-05T01:00:00.000Z', recurrence: { frequency: 'weekly' } },
+    ];
+
+    it('finds an event with the same start and title, however it was typed', () => {
+        expect(findDuplicateEvent(calendar, { title: ' abc会議 ', date: '2026-10-23T01:00:00.000Z' })?.id).toBe('x');
+    });
+
+    it('finds an occurrence of a recurring event', () => {
+        expect(findDuplicateEvent(calendar, { title: '定例', date: '2026-10-26T01:00:00.000Z' })?.id).toBe('w');
+    });
+
+    it('tells apart a different time or title', () => {
+        expect(findDuplicateEvent(calendar, { title: 'ABC会議', date: '2026-10-23T02:00:00.000Z' })).toBeUndefined();
+        expect(findDuplicateEvent(calendar, { title: '別の会議', date: '2026-10-23T01:00:00.000Z' })).toBeUndefined();
+    });
+});
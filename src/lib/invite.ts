@@ -0,0 +1,91 @@
+import { parseISO } from 'date-fns';
+import { filterEventsByDate, type CalendarEvent } from './calendar';
+import { toDateKey } from './recurrence';
+import { normalizeForSearch } from './search';
+import { parseCalendarEvent } from './storage';
+
+// ------- Invites -------
+// An event packed into a link: <app>#invite=<base64url JSON>. The fragment
+// never reaches a server, so sharing needs no storage anywhere.
+// v1: { v, event } with all-day dates as yyyy-MM-dd, so they land on the same day in any zone
+
+export const INVITE_PARAM = 'invite';
+const INVITE_VERSION = 1;
+
+// Leaves room for the app's own URL within one QR code (QR_MAX_BYTES)
+export const MAX_INVITE_LENGTH = 2000;
+
+// What travels: no id, category, color or reminders, which only mean something on the sender's side
+export type SharedEvent = Pick<CalendarEvent, 'title' | 'date' | 'end' | 'allDay' | 'timeZone' | 'description' | 'tags' | 'recurrence'>;
+
+const SHARED_FIELDS: (keyof SharedEvent)[] = ['title', 'date', 'end', 'allDay', 'timeZone', 'description', 'tags', 'recurrence'];
+
+const pickShared = (source: Record<string, unknown>) =>
+    Object.fromEntries(SHARED_FIELDS.filter((f) => source[f] !== undefined).map((f) => [f, source[f]]));
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const toBase64Url = (bytes: Uint8Array) =>
+    btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(''))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+export const toSharedEvent = (event: CalendarEvent): SharedEvent => {
+    const shared = pickShared({ ...event }) as SharedEvent;
+    if (!event.allDay) return shared;
+    return { ...shared, date: toDateKey(new Date(event.date)), end: event.end && toDateKey(new Date(event.end)) };
+};
+
+/** The invite link for `event` under `base` (the app's URL); throws when it would be too long to share. */
+export const createInviteUrl = (event: CalendarEvent, base: string) => {
+    const json = JSON.stringify({ v: INVITE_VERSION, event: toSharedEvent(event) });
+    const payload = toBase64Url(new TextEncoder().encode(json));
+    if (payload.length > MAX_INVITE_LENGTH) throw new Error('内容が長すぎて共有できません。メモを短くしてお試しください');
+    return `${base}#${INVITE_PARAM}=${payload}`;
+};
+
+/**
+ * The event in a location hash such as `#invite=…`, or null when there's no
+ * invite in it. Checked like stored events and size-limited before decoding,
+ * so whatever it returns is safe to save; throws with the reason otherwise.
+ */
+export const parseInvite = (hash: string): SharedEvent | null => {
+    const payload = new URLSearchParams(hash.replace(/^#/, '')).get(INVITE_PARAM);
+    if (payload === null) return null;
+    if (payload.length > MAX_INVITE_LENGTH) throw new Error('招待リンクが長すぎます');
+    if (!/^[A-Za-z0-9_-]+$/.test(payload)) throw new Error('招待リンクが途中で切れているか、壊れています');
+
+    let data: unknown;
+    try {
+        data = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(fromBase64Url(payload)));
+    } catch {
+        throw new Error('招待リンクが途中で切れているか、壊れています');
+    }
+    if (!isObject(data) || !isObject(data.event) || !Number.isInteger(data.v)) throw new Error('招待リンクの形式が正しくありません');
+    if ((data.v as number) > INVITE_VERSION) throw new Error('新しいバージョンのアプリで作られた招待リンクです。アプリを更新してからお試しください');
+
+    const fields = pickShared(data.event);
+    // All-day dates come as yyyy-MM-dd; stored events keep local midnight
+    if (fields.allDay === true) {
+        for (const key of ['date', 'end'] as const) {
+            const value = fields[key];
+            if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) fields[key] = parseISO(value).toISOString();
+        }
+    }
+    const event = parseCalendarEvent({ ...fields, id: INVITE_PARAM });
+    if (!event || !event.title.trim()) throw new Error('招待リンクの予定を読み込めませんでした');
+    if (event.end && new Date(event.end) < new Date(event.date)) throw new Error('招待リンクの予定の終了が開始より前です');
+    return pickShared({ ...event }) as SharedEvent;
+};
+
+// An event already on the calendar with the same title and start, occurrences of recurring ones included
+export const findDuplicateEvent = (events: CalendarEvent[], shared: SharedEvent) => {
+    const start = new Date(shared.date).getTime();
+    const title = normalizeForSearch(shared.title.trim());
+    return filterEventsByDate(events, new Date(shared.date)).find(
+        (e) => new Date(e.date).getTime() === start && normalizeForSearch(e.title.trim()) === title
+    );
+};
@@ -0,0 +1,303 @@
+// ------- QR Code -------
+// Just enough of ISO/IEC 18004 for invite links: byte mode, error correction
+// level M (about 15% of the symbol can be damaged), versions 1–40.
+
+// Per version (index 0 unused), for level M
+const ECC_CODEWORDS_PER_BLOCK = [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const ECC_BLOCKS = [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35,
+    37, 38, 40, 43, 45, 47, 49,
+];
+const ECC_LEVEL_M = 0b00;
+const MAX_VERSION = 40;
+
+// Modules left for data and error correction once the function patterns are drawn
+const rawDataModules = (version: number) => {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const alignments = Math.floor(version / 7) + 2;
+        result -= (25 * alignments - 10) * alignments - 55;
+        if (version >= 7) result -= 36;
+    }
+    return result;
+};
+
+const dataCodewords = (version: number) =>
+    Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ECC_BLOCKS[version];
+
+// The most bytes a symbol can carry, for callers that size-limit their payload
+export const QR_MAX_BYTES = dataCodewords(MAX_VERSION) - 3;
+
+// ------- Reed–Solomon -------
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number) => {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+};
+
+const rsDivisor = (degree: number) => {
+    const result = new Array<number>(degree).fill(0);
+    result[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < degree; j++) {
+            result[j] = gfMultiply(result[j], root);
+            if (j + 1 < degree) result[j] ^= result[j + 1];
+        }
+        root = gfMultiply(root, 0x02);
+    }
+    return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]) => {
+    const result = divisor.map(() => 0);
+    for (const byte of data) {
+        const factor = byte ^ (result.shift() as number);
+        result.push(0);
+        divisor.forEach((coef, i) => (result[i] ^= gfMultiply(coef, factor)));
+    }
+    return result;
+};
+
+// ------- Codewords -------
+
+const encodeData = (bytes: Uint8Array, version: number) => {
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    append(0b0100, 4); // byte mode
+    append(bytes.length, version < 10 ? 8 : 16);
+    bytes.forEach((b) => append(b, 8));
+
+    const capacity = dataCodewords(version) * 8;
+    append(0, Math.min(4, capacity - bits.length)); // terminator
+    append(0, (8 - (bits.length % 8)) % 8);
+    for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+    return codewords;
+};
+
+// Splits the data into blocks, adds each block's error correction and interleaves them
+const addErrorCorrection = (data: number[], version: number) => {
+    const blockCount = ECC_BLOCKS[version];
+    const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+    const shortBlocks = blockCount - (data.length % blockCount);
+    const shortLength = Math.floor(data.length / blockCount);
+    const divisor = rsDivisor(eccLength);
+
+    const blocks: { data: number[]; ecc: number[] }[] = [];
+    for (let i = 0, k = 0; i < blockCount; i++) {
+        const block = data.slice(k, k + shortLength + (i < shortBlocks ? 0 : 1));
+        k += block.length;
+        blocks.push({ data: block, ecc: rsRemainder(block, divisor) });
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i <= shortLength; i++) {
+        for (const block of blocks) if (i < block.data.length) result.push(block.data[i]);
+    }
+    for (let i = 0; i < eccLength; i++) {
+        for (const block of blocks) result.push(block.ecc[i]);
+    }
+    return result;
+};
+
+// ------- Matrix -------
+
+const alignmentPositions = (version: number) => {
+    if (version === 1) return [];
+    const count = Math.floor(version / 7) + 2;
+    const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+    const result = [6];
+    for (let pos = version * 4 + 10; result.length < count; pos -= step) result.splice(1, 0, pos);
+    return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 === 0,
+    (x, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+    (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+    (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+interface Matrix {
+    version: number;
+    size: number;
+    modules: boolean[][]; // [y][x]
+    reserved: boolean[][]; // function patterns, left alone by the data and the mask
+}
+
+const setFunction = (m: Matrix, x: number, y: number, dark: boolean) => {
+    m.modules[y][x] = dark;
+    m.reserved[y][x] = true;
+};
+
+const drawFormatBits = (m: Matrix, mask: number) => {
+    const data = (ECC_LEVEL_M << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i <= 5; i++) setFunction(m, 8, i, bit(i));
+    setFunction(m, 8, 7, bit(6));
+    setFunction(m, 8, 8, bit(7));
+    setFunction(m, 7, 8, bit(8));
+    for (let i = 9; i < 15; i++) setFunction(m, 14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) setFunction(m, m.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) setFunction(m, 8, m.size - 15 + i, bit(i));
+    setFunction(m, 8, m.size - 8, true); // the dark module
+};
+
+const drawVersion = (m: Matrix) => {
+    if (m.version < 7) return;
+    let rem = m.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (m.version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) === 1;
+        const a = m.size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        setFunction(m, a, b, dark);
+        setFunction(m, b, a, dark);
+    }
+};
+
+const createMatrix = (version: number): Matrix => {
+    const size = version * 4 + 17;
+    const m: Matrix = {
+        version,
+        size,
+        modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+        reserved: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    };
+    for (let i = 0; i < size; i++) {
+        setFunction(m, 6, i, i % 2 === 0);
+        setFunction(m, i, 6, i % 2 === 0);
+    }
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const x = cx + dx;
+                const y = cy + dy;
+                const dist = Math.max(Math.abs(dx), Math.abs(dy));
+                if (x >= 0 && x < size && y >= 0 && y < size) setFunction(m, x, y, dist !== 2 && dist !== 4);
+            }
+        }
+    }
+    const positions = alignmentPositions(version);
+    const last = positions.length - 1;
+    positions.forEach((cx, i) =>
+        positions.forEach((cy, j) => {
+            // Those would overlap the finder patterns
+            if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+            for (let dy = -2; dy <= 2; dy++) {
+                for (let dx = -2; dx <= 2; dx++) setFunction(m, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+            }
+        })
+    );
+    drawFormatBits(m, 0); // reserves the area; redrawn once the mask is chosen
+    drawVersion(m);
+    return m;
+};
+
+// Zigzags up and down two columns at a time from the bottom right
+const drawCodewords = (m: Matrix, codewords: number[]) => {
+    let i = 0;
+    for (let right = m.size - 1; right >= 1; right -= 2) {
+        if (right === 6) right = 5; // skip the vertical timing pattern
+        for (let vert = 0; vert < m.size; vert++) {
+            for (let j = 0; j < 2; j++) {
+                const x = right - j;
+                const y = ((right + 1) & 2) === 0 ? m.size - 1 - vert : vert;
+                if (m.reserved[y][x] || i >= codewords.length * 8) continue;
+                m.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+                i++;
+            }
+        }
+    }
+};
+
+// Masks are their own inverse, so applying one twice undoes it
+const applyMask = (m: Matrix, mask: number) => {
+    for (let y = 0; y < m.size; y++) {
+        for (let x = 0; x < m.size; x++) {
+            if (!m.reserved[y][x] && MASKS[mask](x, y)) m.modules[y][x] = !m.modules[y][x];
+        }
+    }
+};
+
+// The spec's penalty score; the mask with the lowest is easiest to scan
+const penalty = ({ size, modules }: Matrix) => {
+    let score = 0;
+    const lines = [...modules, ...modules.map((_, x) => modules.map((row) => row[x]))];
+    for (const line of lines) {
+        let run = 1;
+        for (let i = 1; i <= size; i++) {
+            if (i < size && line[i] === line[i - 1]) {
+                run++;
+            } else {
+                if (run >= 5) score += run - 2;
+                run = 1;
+            }
+        }
+        const text = line.map((dark) => (dark ? '1' : '0')).join('');
+        for (const pattern of ['10111010000', '00001011101']) {
+            for (let at = text.indexOf(pattern); at >= 0; at = text.indexOf(pattern, at + 1)) score += 40;
+        }
+    }
+    for (let y = 0; y < size - 1; y++) {
+        for (let x = 0; x < size - 1; x++) {
+            const dark = modules[y][x];
+            if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) score += 3;
+        }
+    }
+    const total = size * size;
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+};
+
+/**
+ * The QR code for `text` as rows of modules, true = dark, without the quiet
+ * zone. Picks the smallest version that fits; throws when none does.
+ */
+export const encodeQR = (text: string): boolean[][] => {
+    const bytes = new TextEncoder().encode(text);
+    let version = 1;
+    while (version <= MAX_VERSION && 4 + (version < 10 ? 8 : 16) + bytes.length * 8 > dataCodewords(version) * 8) version++;
+    if (version > MAX_VERSION) throw new Error('QRコードにするには長すぎます');
+
+    const matrix = createMatrix(version);
+    drawCodewords(matrix, addErrorCorrection(encodeData(bytes, version), version));
+    let best = 0;
+    let bestScore = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+        applyMask(matrix, mask);
+        drawFormatBits(matrix, mask);
+        const score = penalty(matrix);
+        if (score < bestScore) {
+            best = mask;
+            bestScore = score;
+        }
+        applyMask(matrix, mask);
+    }
+    applyMask(matrix, best);
+    drawFormatBits(matrix, best);
+    return matrix.modules;
+};
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { CalendarEvent } from './calendar';
+import { getOccurrences } from './recurrence';
+import { fromZonedTime } from './timezone';
+
+const NEW_YORK = 'America/New_York';
+
+const starts = (event: CalendarEvent, from: string, to: string) =>
+    getOccurrences(event, new Date(from), new Date(to)).map((o) => o.date);
+
+// US DST in 2026: 2:00 → 3:00 on March 8, 2:00 → 1:00 on November 1
+describe('getOccurrences across DST', () => {
+    it('keeps a weekly series at 9:00 New York time when the offset changes', () => {
+        const event: CalendarEvent = {
+            id: 'w',
+            title: 'standup',
+            date: '2026-10-26T13:00:00.000Z', // Mon 9:00 EDT
+            end: '2026-10-26T13:15:00.000Z',
+            timeZone: NEW_YORK,
+            recurrence: { frequency: 'weekly', exdates: ['2026-11-09'] },
+        };
+        const occurrences = getOccurrences(event, new Date('2026-10-20T00:00:00Z'), new Date('2026-11-20T00:00:00Z'));
+        expect(occurrences.map((o) => [o.date, o.end])).toEqual([
+            ['2026-10-26T13:00:00.000Z', '2026-10-26T13:15:00.000Z'],
+            ['2026-11-02T14:00:00.000Z', '2026-11-02T14:15:00.000Z'], // 9:00 EST
+            ['2026-11-16T14:00:00.000Z', '2026-11-16T14:15:00.000Z'],
+        ]);
+
+        const spring = { ...event, date: '2026-03-06T14:00:00.000Z', end: undefined, recurrence: { frequency: 'weekly' as const } };
+        expect(starts(spring, '2026-03-01T00:00:00Z', '2026-03-14T00:00:00Z')).toEqual([
+            '2026-03-06T14:00:00.000Z',
+            '2026-03-13T13:00:00.000Z',
+        ]);
+    });
+
+    it('moves an occurrence in the spring-forward gap ahead by the gap', () => {
+        const event: CalendarEvent = {
+            id: 'd',
+            title: 'backup',
+            date: '2026-03-07T07:30:00.000Z', // 2:30 EST
+            timeZone: NEW_YORK,
+            recurrence: { frequency: 'daily' },
+        };
+        expect(starts(event, '2026-03-07T00:00:00Z', '2026-03-10T00:00:00Z')).toEqual([
+            '2026-03-07T07:30:00.000Z',
+            '2026-03-08T07:30:00.000Z', // 2:30 does not exist; 3:30 EDT
+            '2026-03-09T06:30:00.000Z', // 2:30 EDT
+        ]);
+    });
+
+    it('starts a series entered in the gap at the time after the jump', () => {
+        const date = fromZonedTime(new Date(2026, 2, 8, 2, 30), NEW_YORK);
+        expect(date.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+
+        const event: CalendarEvent = { id: 'g', title: 'gap', date: date.toISOString(), timeZone: NEW_YORK, recurrence: { frequency: 'daily', count: 2 } };
+        expect(starts(event, '2026-03-01T00:00:00Z', '2026-03-31T00:00:00Z')).toEqual([
+            '2026-03-08T07:30:00.000Z',
+            '2026-03-09T07:30:00.000Z', // 3:30 EDT, the time the series was saved with
+        ]);
+    });
+
+    it('takes the first of the repeated fall-back hour, once', () => {
+        const event: CalendarEvent = {
+            id: 'f',
+            title: 'night job',
+            date: '2026-10-31T05:30:00.000Z', // 1:30 EDT
+            timeZone: NEW_YORK,
+            recurrence: { frequency: 'daily' },
+        };
+        expect(starts(event, '2026-10-31T00:00:00Z', '2026-11-03T00:00:00Z')).toEqual([
+            '2026-10-31T05:30:00.000Z',
+            '2026-11-01T05:30:00.000Z', // 1:30 EDT, not again at 1:30 EST
+            '2026-11-02T06:30:00.000Z', // 1:30 EST
+        ]);
+    });
+});
+
+describe('getOccurrences on a device in another zone', () => {
+    // A weekly Monday 10:00 meeting made in Tokyo, looked at after flying to New York
+    const meeting: CalendarEvent = {
+        id: 'm',
+        title: '定例',
+        date: '2026-10-19T01:00:00.000Z',
+        recurrence: { frequency: 'weekly' },
+    };
+    const range = ['2026-10-19T00:00:00Z', '2026-11-10T00:00:00Z'] as const;
+
+    beforeEach(() => {
+        process.env.TZ = NEW_YORK;
+    });
+    afterEach(() => {
+        process.env.TZ = 'Asia/Tokyo';
+    });
+
+    it('keeps a series pinned to its zone at 10:00 there, whatever the device clock does', () => {
+        expect(starts({ ...meeting, timeZone: 'Asia/Tokyo' }, ...range)).toEqual([
+            '2026-10-19T01:00:00.000Z',
+            '2026-10-26T01:00:00.000Z',
+            '2026-11-02T01:00:00.000Z',
+            '2026-11-09T01:00:00.000Z',
+        ]);
+    });
+
+    it('lays an unpinned series out on the device clock, so it follows the device’s DST', () => {
+        expect(starts(meeting, ...range)).toEqual([
+            '2026-10-19T01:00:00.000Z', // Sun 21:00 EDT
+            '2026-10-26T01:00:00.000Z',
+            '2026-11-02T02:00:00.000Z', // Sun 21:00 EST: 11:00 in Tokyo
+            '2026-11-09T02:00:00.000Z',
+        ]);
+    });
+});
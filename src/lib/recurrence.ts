@@ -0,0 +1,199 @@
+import { format, startOfDay, endOfDay, startOfWeek, addDays, differenceInCalendarDays, differenceInCalendarWeeks, parseISO } from 'date-fns';
+import type { CalendarEvent } from './calendar';
+import { fromZonedTime, toZonedTime } from './timezone';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval?: number; // every N days/weeks/months/years, defaults to 1
+    weekdays?: number[]; // 0 = Sunday, weekly rules only
+    until?: string; // yyyy-MM-dd, last day an occurrence may fall on
+    count?: number; // total occurrences including the first
+    exdates?: string[]; // yyyy-MM-dd of skipped occurrences
+}
+
+export type SeriesDeleteMode = 'this' | 'following' | 'all';
+
+// Guards against runaway loops on malformed rules
+const MAX_ITERATIONS = 5000;
+const MAX_DATE = new Date(8640000000000000);
+
+export const RECURRENCE_LABELS: Record<RecurrenceFrequency, string> = {
+    daily: '毎日',
+    weekly: '毎週',
+    monthly: '毎月',
+    yearly: '毎年',
+};
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Timed events with a zone repeat by that zone's calendar, so its DST keeps their wall-clock time
+const seriesZone = (event: Pick<CalendarEvent, 'timeZone' | 'allDay'>) => (event.allDay ? undefined : event.timeZone);
+
+// The day an occurrence falls on in its event's zone; exdates and doneDates are keyed by it
+export const occurrenceKey = (event: Pick<CalendarEvent, 'timeZone' | 'allDay'>, date: Date) => {
+    const zone = seriesZone(event);
+    return toDateKey(zone ? toZonedTime(date, zone) : date);
+};
+
+/**
+ * Candidate start times of period `k` of the series, in chronological order.
+ * Monthly and yearly rules skip periods that lack the start's day (31st, Feb 29).
+ */
+const periodDates = (start: Date, rule: RecurrenceRule, k: number): Date[] => {
+    const interval = Math.max(1, rule.interval ?? 1);
+    const h = start.getHours();
+    const min = start.getMinutes();
+
+    switch (rule.frequency) {
+        case 'daily':
+            return [addDays(start, k * interval)];
+        case 'weekly': {
+            const weekStart = addDays(startOfWeek(start, { weekStartsOn: 0 }), k * interval * 7);
+            const weekdays = rule.weekdays && rule.weekdays.length > 0 ? [...rule.weekdays].sort((a, b) => a - b) : [start.getDay()];
+            return weekdays
+                .map((wd) => {
+                    const d = addDays(weekStart, wd);
+                    return new Date(d.getFullYear(), d.getMonth(), d.getDate(), h, min);
+                })
+                .filter((d) => d >= start);
+        }
+        case 'monthly': {
+            const d = new Date(start.getFullYear(), start.getMonth() + k * interval, start.getDate(), h, min);
+            return d.getDate() === start.getDate() ? [d] : [];
+        }
+        case 'yearly': {
+            const d = new Date(start.getFullYear() + k * interval, start.getMonth(), start.getDate(), h, min);
+            return d.getMonth() === start.getMonth() ? [d] : [];
+        }
+    }
+};
+
+// Without a count, periods before the range can be skipped outright
+const firstPeriodFor = (start: Date, rule: RecurrenceRule, rangeStart: Date) => {
+    if (rule.count || rangeStart <= start) return 0;
+    const interval = Math.max(1, rule.interval ?? 1);
+    if (rule.frequency === 'daily') {
+        return Math.max(0, Math.floor(differenceInCalendarDays(rangeStart, start) / interval) - 1);
+    }
+    if (rule.frequency === 'weekly') {
+        return Math.max(0, Math.floor(differenceInCalendarWeeks(rangeStart, start) / interval) - 1);
+    }
+    return 0;
+};
+
+/**
+ * How long an event lasts in milliseconds. All-day events run to the end of
+ * their last day; events without an end are instants.
+ */
+export const getEventSpan = (event: CalendarEvent): number => {
+    const start = new Date(event.date);
+    if (event.allDay) {
+        return endOfDay(event.end ? new Date(event.end) : start).getTime() - start.getTime();
+    }
+    return event.end ? Math.max(0, new Date(event.end).getTime() - start.getTime()) : 0;
+};
+
+// Moves an event (and its end) to another start, keeping its length
+const withStart = (event: CalendarEvent, occ: Date): CalendarEvent => {
+    if (!event.end) return { ...event, date: occ.toISOString() };
+    const start = new Date(event.date);
+    const end = new Date(event.end);
+    const shiftedEnd = event.allDay
+        ? addDays(occ, differenceInCalendarDays(end, start))
+        : new Date(occ.getTime() + (end.getTime() - start.getTime()));
+    return { ...event, date: occ.toISOString(), end: shiftedEnd.toISOString() };
+};
+
+/**
+ * Occurrences of an event that overlap [rangeStart, rangeEnd], so multi-day
+ * events also show up on the days after their start.
+ * Each occurrence keeps the series id and carries its own `date`.
+ */
+export const getOccurrences = (event: CalendarEvent, rangeStart: Date, rangeEnd: Date): CalendarEvent[] => {
+    const rule = event.recurrence;
+    const span = getEventSpan(event);
+    const overlaps = (occ: Date) =>
+        occ <= rangeEnd && (span > 0 ? occ.getTime() + span > rangeStart.getTime() : occ >= rangeStart);
+
+    if (!rule) {
+        return overlaps(new Date(event.date)) ? [event] : [];
+    }
+    // The series is laid out in wall-clock time of its zone, then each start converted back
+    const zone = seriesZone(event);
+    const toWall = (date: Date) => (zone ? toZonedTime(date, zone) : date);
+    const start = toWall(new Date(event.date));
+    const searchFrom = toWall(new Date(rangeStart.getTime() - span));
+
+    const until = rule.until ? endOfDay(parseISO(rule.until)) : null;
+    const exdates = new Set(rule.exdates ?? []);
+    const result: CalendarEvent[] = [];
+    let produced = 0;
+
+    for (let k = firstPeriodFor(start, rule, searchFrom), i = 0; i < MAX_ITERATIONS; k++, i++) {
+        const candidates = periodDates(start, rule, k);
+        if (candidates.length === 0) continue;
+        for (const wall of candidates) {
+            const occ = zone ? fromZonedTime(wall, zone) : wall;
+            if (occ > rangeEnd || (until && wall > until) || (rule.count && produced >= rule.count)) {
+                return result;
+            }
+            produced++;
+            if (overlaps(occ) && !exdates.has(toDateKey(wall))) {
+                result.push(withStart(event, occ));
+            }
+        }
+    }
+    return result;
+};
+
+export const expandEvents = (events: CalendarEvent[], rangeStart: Date, rangeEnd: Date): CalendarEvent[] => {
+    return events.flatMap((event) => getOccurrences(event, rangeStart, rangeEnd));
+};
+
+/**
+ * Removes one occurrence, or the occurrence and everything after it, from a series.
+ * Returns null when nothing of the series would be left.
+ */
+export const removeOccurrences = (
+    event: CalendarEvent,
+    occurrenceDate: Date,
+    mode: SeriesDeleteMode
+): CalendarEvent | null => {
+    const rule = event.recurrence;
+    if (!rule || mode === 'all') return null;
+
+    const key = occurrenceKey(event, occurrenceDate);
+    if (mode === 'this') {
+        const exdates = Array.from(new Set([...(rule.exdates ?? []), key]));
+        const next = { ...event, recurrence: { ...rule, exdates } };
+        // Open-ended series always have occurrences left
+        if (!rule.count && !rule.until) return next;
+        return getOccurrences(next, new Date(event.date), MAX_DATE).length > 0 ? next : null;
+    }
+
+    // 'following': end the series the day before this occurrence
+    const zone = seriesZone(event);
+    const occurrenceDay = startOfDay(zone ? toZonedTime(occurrenceDate, zone) : occurrenceDate);
+    if (occurrenceDay <= startOfDay(zone ? toZonedTime(new Date(event.date), zone) : new Date(event.date))) return null;
+    const until = toDateKey(addDays(occurrenceDay, -1));
+    return { ...event, recurrence: { ...rule, until, count: undefined } };
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+    const interval = Math.max(1, rule.interval ?? 1);
+    let text = RECURRENCE_LABELS[rule.frequency];
+    if (interval > 1) {
+        const unit = { daily: '日', weekly: '週間', monthly: 'ヶ月', yearly: '年' }[rule.frequency];
+        text = `${interval}${unit}ごと`;
+    }
+    if (rule.frequency === 'weekly' && rule.weekdays && rule.weekdays.length > 0) {
+        text += ` ${[...rule.weekdays].sort((a, b) => a - b).map((d) => WEEKDAY_LABELS[d]).join('・')}`;
+    }
+    if (rule.until) text += `（${format(parseISO(rule.until), 'M/d')}まで）`;
+    else if (rule.count) text += `（${rule.count}回）`;
+    return text;
+};
@@ -0,0 +1,17 @@
+// Minutes before the event start; 0 fires at the start time
+export const REMINDER_OPTIONS = [0, 5, 10, 15, 30, 60, 120, 1440, 10080];
+
+export const DEFAULT_REMINDERS = [10, 0];
+
+export const formatReminderOffset = (minutes: number): string => {
+    if (minutes === 0) return '開始時';
+    if (minutes % 10080 === 0) return `${minutes / 10080}週間`;
+    if (minutes % 1440 === 0) return `${minutes / 1440}日`;
+    if (minutes % 60 === 0) return `${minutes / 60}時間`;
+    return `${minutes}分`;
+};
+
+export const formatReminderLabel = (minutes: number): string => {
+    return minutes === 0 ? '開始時' : `${formatReminderOffset(minutes)}前`;
+};
+
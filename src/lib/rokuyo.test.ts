@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getLunarDate, getRokuyo } from './rokuyo';
+
+const day = (iso: string) => {
+    const [y, m, d] = iso.split('-').map(Number);
+    return new Date(y, m - 1, d);
+};
+
+// Checked against the 国立天文台 暦要項 and published 六曜 calendars
+describe('getLunarDate', () => {
+    it.each([
+        ['2024-02-10', { month: 1, day: 1, leap: false }],
+        ['2025-01-29', { month: 1, day: 1, leap: false }],
+        ['2026-02-17', { month: 1, day: 1, leap: false }],
+        ['2024-01-01', { month: 11, day: 20, leap: false }],
+    ])('%s', (date, expected) => {
+        expect(getLunarDate(day(date))).toEqual(expected);
+    });
+
+    it('finds the leap months of 2020, 2023 and 2025', () => {
+        expect(getLunarDate(day('2020-05-23'))).toEqual({ month: 4, day: 1, leap: true });
+        expect(getLunarDate(day('2023-03-22'))).toEqual({ month: 2, day: 1, leap: true });
+        expect(getLunarDate(day('2023-04-20'))).toEqual({ month: 3, day: 1, leap: false });
+        expect(getLunarDate(day('2025-07-25'))).toEqual({ month: 6, day: 1, leap: true });
+        expect(getLunarDate(day('2025-07-24'))).toEqual({ month: 6, day: 30, leap: false });
+    });
+});
+
+describe('getRokuyo', () => {
+    it.each([
+        ['2024-01-01', '赤口'],
+        ['2025-01-01', '先勝'],
+        ['2026-01-01', '大安'],
+        ['2024-02-10', '先勝'],
+        ['2025-01-29', '先勝'],
+        ['2026-02-17', '先勝'],
+    ])('%s is %s', (date, expected) => {
+        expect(getRokuyo(day(date))).toBe(expected);
+    });
+
+    it('starts the days of a leap month like the month it repeats', () => {
+        // 閏6月1日 of 2025 counts as 6月1日: (6 + 1) % 6 → 赤口
+        expect(getRokuyo(day('2025-07-25'))).toBe('赤口');
+    });
+});
@@ -0,0 +1,125 @@
+// ------- 旧暦 -------
+// The lunisolar calendar the 六曜 come from, worked out in JST from the new
+// moons and the sun's principal terms (中気) with Meeus' formulas. Good to a
+// few minutes, so a new moon or 中気 right at midnight may land a day off; the
+// months around 2033 that the 天保暦 rules leave ambiguous aren't special-cased.
+
+export interface LunarDate {
+    month: number; // 1–12
+    day: number; // 1–30
+    leap: boolean; // 閏月
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNIX_EPOCH_JD = 2440587.5;
+const DELTA_T_DAYS = 69 / 86400; // TT − UT in the 2020s; close enough for whole days
+const JST_DAYS = 9 / 24;
+const SYNODIC_MONTH = 29.530588861;
+const TROPICAL_YEAR = 365.2422;
+
+const rad = (deg: number) => (deg * Math.PI) / 180;
+const normalize = (deg: number) => ((deg % 360) + 360) % 360;
+
+// Days since 1970-01-01 in JST, for a calendar date or a moment in TT
+const dayNumber = (date: Date) => Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+const jstDayOf = (jde: number) => Math.floor(jde - DELTA_T_DAYS + JST_DAYS - UNIX_EPOCH_JD);
+const jdeOfJstDay = (day: number) => day + UNIX_EPOCH_JD - JST_DAYS + DELTA_T_DAYS;
+
+// The sun's apparent longitude in degrees (Meeus ch. 25, low accuracy)
+const sunLongitude = (jde: number) => {
+    const t = (jde - 2451545) / 36525;
+    const l0 = 280.46646 + 36000.76983 * t + 0.0003032 * t * t;
+    const m = rad(357.52911 + 35999.05029 * t - 0.0001537 * t * t);
+    const c =
+        (1.914602 - 0.004817 * t - 0.000014 * t * t) * Math.sin(m) +
+        (0.019993 - 0.000101 * t) * Math.sin(2 * m) +
+        0.000289 * Math.sin(3 * m);
+    const omega = rad(125.04 - 1934.136 * t);
+    return normalize(l0 + c - 0.00569 - 0.00478 * Math.sin(omega));
+};
+
+// When the sun next reaches `target` degrees, from `jde` on
+const sunReaches = (target: number, jde: number) => {
+    let t = jde + (normalize(target - sunLongitude(jde)) / 360) * TROPICAL_YEAR;
+    for (let i = 0; i < 5; i++) {
+        const diff = ((target - sunLongitude(t) + 540) % 360) - 180;
+        t += (diff / 360) * TROPICAL_YEAR;
+    }
+    return t;
+};
+
+// The new moon of lunation k, k = 0 being 2000-01-06 (Meeus ch. 49, without the planetary terms)
+const newMoon = (k: number) => {
+    const t = k / 1236.85;
+    const jde =
+        2451550.09766 + SYNODIC_MONTH * k + 0.00015437 * t * t - 0.00000015 * t ** 3 + 0.00000000073 * t ** 4;
+    const e = 1 - 0.002516 * t - 0.0000074 * t * t;
+    const m = rad(2.5534 + 29.1053567 * k - 0.0000014 * t * t - 0.00000011 * t ** 3);
+    const mp = rad(201.5643 + 385.81693528 * k + 0.0107582 * t * t + 0.00001238 * t ** 3 - 0.000000058 * t ** 4);
+    const f = rad(160.7108 + 390.67050284 * k - 0.0016118 * t * t - 0.00000227 * t ** 3 + 0.000000011 * t ** 4);
+    const omega = rad(124.7746 - 1.56375588 * k + 0.0020672 * t * t + 0.00000215 * t ** 3);
+    return (
+        jde -
+        0.4072 * Math.sin(mp) +
+        0.17241 * e * Math.sin(m) +
+        0.01608 * Math.sin(2 * mp) +
+        0.01039 * Math.sin(2 * f) +
+        0.00739 * e * Math.sin(mp - m) -
+        0.00514 * e * Math.sin(mp + m) +
+        0.00208 * e * e * Math.sin(2 * m) -
+        0.00111 * Math.sin(mp - 2 * f) -
+        0.00057 * Math.sin(mp + 2 * f) +
+        0.00056 * e * Math.sin(2 * mp + m) -
+        0.00042 * Math.sin(3 * mp) +
+        0.00042 * e * Math.sin(m + 2 * f) +
+        0.00038 * e * Math.sin(m - 2 * f) -
+        0.00024 * e * Math.sin(2 * mp - m) -
+        0.00017 * Math.sin(omega) -
+        0.00007 * Math.sin(mp + 2 * m) +
+        0.00004 * Math.sin(2 * mp - 2 * f) +
+        0.00004 * Math.sin(3 * m) +
+        0.00003 * Math.sin(mp + m - 2 * f) +
+        0.00003 * Math.sin(2 * mp + 2 * f) -
+        0.00003 * Math.sin(mp + m + 2 * f) +
+        0.00003 * Math.sin(mp - m + 2 * f) -
+        0.00002 * Math.sin(mp - m - 2 * f) -
+        0.00002 * Math.sin(3 * mp + m) +
+        0.00002 * Math.sin(4 * mp)
+    );
+};
+
+const newMoonDay = (k: number) => jstDayOf(newMoon(k));
+
+// The month starting with lunation k: its number, or null when no 中気 falls in it (a leap month)
+const monthNumber = (k: number): number | null => {
+    const start = newMoonDay(k);
+    const next = newMoonDay(k + 1);
+    const target = Math.ceil(sunLongitude(jdeOfJstDay(start)) / 30) * 30;
+    const chuki = jstDayOf(sunReaches(target % 360, jdeOfJstDay(start)));
+    // 春分 (0°) falls in the 2nd month, 冬至 (270°) in the 11th
+    return chuki < next ? ((target / 30 + 1) % 12) + 1 : null;
+};
+
+export const getLunarDate = (date: Date): LunarDate => {
+    const day = dayNumber(date);
+    let k = Math.floor((day + UNIX_EPOCH_JD - 2451550.09766) / SYNODIC_MONTH);
+    while (newMoonDay(k) > day) k--;
+    while (newMoonDay(k + 1) <= day) k++;
+    const month = monthNumber(k);
+    return {
+        month: month ?? monthNumber(k - 1) ?? 1,
+        day: day - newMoonDay(k) + 1,
+        leap: month === null,
+    };
+};
+
+// ------- 六曜 -------
+
+export const ROKUYO = ['大安', '赤口', '先勝', '友引', '先負', '仏滅'] as const;
+
+export type Rokuyo = (typeof ROKUYO)[number];
+
+export const getRokuyo = (date: Date): Rokuyo => {
+    const { month, day } = getLunarDate(date);
+    return ROKUYO[(month + day) % 6];
+};
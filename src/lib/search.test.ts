@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { CalendarEvent } from './calendar';
+import { DEFAULT_CATEGORIES } from './categories';
+import { searchEvents } from './search';
+
+const NOW = new Date('2026-10-19T00:00:00Z');
+
+const event = (id: string, fields: Partial<CalendarEvent> = {}): CalendarEvent => ({
+    id,
+    title: id,
+    date: '2026-10-20T01:00:00.000Z',
+    ...fields,
+});
+
+describe('searchEvents color filter', () => {
+    const events = [
+        event('plain'),
+        event('own-blue', { color: 'blue' }),
+        event('own-red', { color: 'red' }),
+        // 仕事 is drawn in the same indigo as blue, 健康 in the same red
+        event('work', { categoryId: 'work' }),
+        event('health', { categoryId: 'health' }),
+        event('work-but-green', { categoryId: 'work', color: 'green' }),
+        event('custom', { color: '#123456' }),
+    ];
+    const ids = (colors: string[]) => searchEvents(events, { query: '', colors }, NOW, DEFAULT_CATEGORIES).map((e) => e.id);
+
+    it('matches the color the event is shown in, its own before its category’s', () => {
+        expect(ids(['blue'])).toEqual(['own-blue', 'work']);
+        expect(ids(['red'])).toEqual(['own-red', 'health']);
+        expect(ids(['green'])).toEqual(['work-but-green']);
+    });
+
+    it('leaves events without any color out of every color', () => {
+        expect(ids(['blue', 'green', 'red', 'purple', 'orange'])).not.toContain('plain');
+    });
+
+    it('ignores colors with no filter set', () => {
+        expect(ids([])).toHaveLength(events.length);
+    });
+});
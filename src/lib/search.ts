@@ -0,0 +1,86 @@
+import { addDays, subDays, startOfDay, endOfDay, parseISO } from 'date-fns';
+import { EVENT_COLORS, getEventColor, type CalendarEvent } from './calendar';
+import { findCategory, type Category } from './categories';
+import { getOccurrences, getEventSpan } from './recurrence';
+
+export type SearchTimeFilter = 'all' | 'upcoming' | 'past';
+
+export interface SearchFilters {
+    query: string;
+    colors?: string[]; // EVENT_COLORS names, matched against the color the event is shown in; empty = any
+    categories?: string[]; // category ids, '' for none; empty = any
+    from?: string; // yyyy-MM-dd
+    to?: string; // yyyy-MM-dd
+    when?: SearchTimeFilter;
+}
+
+export const SEARCH_TIME_LABELS: Record<SearchTimeFilter, string> = {
+    all: 'すべて',
+    upcoming: '今後',
+    past: '過去',
+};
+
+// Recurring events are searched this far either side of today unless a range is given
+const RECURRING_WINDOW_DAYS = 365;
+const MAX_RESULTS = 100;
+
+/**
+ * Folds the variants people type interchangeably: full-width and half-width
+ * forms (ＡＢＣ／ｱｲｳ), katakana and hiragana, and letter case.
+ */
+export const normalizeForSearch = (text: string) =>
+    text
+        .normalize('NFKC')
+        .toLowerCase()
+        .replace(/[ァ-ヶ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0x60));
+
+// The color the event is drawn in, or undefined when it has neither its own color nor a category's
+const displayColor = (event: CalendarEvent, categories: Category[]) =>
+    event.color || findCategory(categories, event.categoryId) ? getEventColor(event, categories).toLowerCase() : undefined;
+
+const matchesQuery = (event: CalendarEvent, terms: string[]) => {
+    const haystack = normalizeForSearch(`${event.title} ${event.description ?? ''} ${(event.tags ?? []).map((t) => `#${t}`).join(' ')}`);
+    return terms.every((term) => haystack.includes(term));
+};
+
+/**
+ * Occurrences whose title, description or tags contain every word of the query,
+ * narrowed by the filters and listed in date order.
+ */
+export const searchEvents = (
+    events: CalendarEvent[],
+    filters: SearchFilters,
+    now: Date = new Date(),
+    categories: Category[] = []
+): CalendarEvent[] => {
+    const terms = normalizeForSearch(filters.query).split(/\s+/).filter(Boolean);
+    const from = filters.from ? startOfDay(parseISO(filters.from)) : null;
+    const to = filters.to ? endOfDay(parseISO(filters.to)) : null;
+    const when = filters.when ?? 'all';
+    const colors = new Set(
+        EVENT_COLORS.filter((c) => filters.colors?.includes(c.name)).map((c) => c.value.toLowerCase())
+    );
+
+    const inRange = (occurrence: CalendarEvent) => {
+        const start = new Date(occurrence.date).getTime();
+        const end = start + getEventSpan(occurrence);
+        if (from && end < from.getTime()) return false;
+        if (to && start > to.getTime()) return false;
+        if (when === 'upcoming') return end >= now.getTime();
+        if (when === 'past') return end < now.getTime();
+        return true;
+    };
+
+    return events
+        .filter((e) => matchesQuery(e, terms))
+        .filter((e) => !filters.colors?.length || colors.has(displayColor(e, categories) ?? ''))
+        .filter((e) => !filters.categories?.length || filters.categories.includes(e.categoryId ?? ''))
+        .flatMap((e) =>
+            e.recurrence
+                ? getOccurrences(e, from ?? subDays(now, RECURRING_WINDOW_DAYS), to ?? addDays(now, RECURRING_WINDOW_DAYS))
+                : [e]
+        )
+        .filter(inRange)
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+        .slice(0, MAX_RESULTS);
+};
@@ -0,0 +1,73 @@
+import { DEFAULT_REMINDERS } from './reminders';
+import { DEFAULT_CATEGORIES, type Category } from './categories';
+
+// The part of the day the free-time finder offers slots in
+export interface WorkingHours {
+    start: string; // HH:mm
+    end: string; // HH:mm
+    days: number[]; // 0 = Sunday
+}
+
+// Daily summary notifications; a null time turns that one off
+export interface DigestSettings {
+    morning: string | null; // HH:mm of 今日の予定
+    evening: string | null; // HH:mm of the 明日の予定 preview
+    skipEmptyDays: boolean;
+}
+
+// Sync through this app's /api/sync; the token matches SYNC_TOKEN on the server
+export interface SyncSettings {
+    enabled: boolean;
+    token: string;
+}
+
+// Automatic daily backups kept in this browser
+export interface SnapshotSettings {
+    daily: boolean;
+    keep: number; // the newest N are kept
+}
+
+export interface AppSettings {
+    defaultReminders: number[]; // minutes before start, [] = no notification
+    workingHours: WorkingHours;
+    defaultEventMinutes: number; // assumed length of events without an end
+    digest: DigestSettings;
+    sync: SyncSettings;
+    snapshots: SnapshotSettings;
+    homeTimeZone: string; // IANA zone; '' = wherever the device is
+    categories: Category[];
+    showRokuyo: boolean; // 大安・仏滅… on the month view
+}
+
+export type SchedulingSettings = Pick<AppSettings, 'workingHours' | 'defaultEventMinutes'>;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    defaultReminders: DEFAULT_REMINDERS,
+    workingHours: { start: '09:00', end: '18:00', days: [1, 2, 3, 4, 5] },
+    defaultEventMinutes: 60,
+    digest: { morning: null, evening: null, skipEmptyDays: true },
+    sync: { enabled: false, token: '' },
+    snapshots: { daily: false, keep: 7 },
+    homeTimeZone: '',
+    categories: DEFAULT_CATEGORIES,
+    showRokuyo: false,
+};
+
+// LocalStorage persistence
+const SETTINGS_KEY = 'ai-secretary-settings';
+
+export const loadSettings = (): AppSettings => {
+    if (typeof window === 'undefined') return DEFAULT_SETTINGS;
+    try {
+        const data = localStorage.getItem(SETTINGS_KEY);
+        if (data) return { ...DEFAULT_SETTINGS, ...JSON.parse(data) };
+    } catch {
+        // ignore
+    }
+    return DEFAULT_SETTINGS;
+};
+
+export const saveSettings = (settings: AppSettings) => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,127 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CalendarEvent } from './calendar';
+
+// A fresh database and localStorage per test; storage.ts keeps its connection
+// in module state, so it's imported anew each time too
+const memoryStorage = (): Storage => {
+    const items = new Map<string, string>();
+    return {
+        get length() {
+            return items.size;
+        },
+        key: (i) => [...items.keys()][i] ?? null,
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => void items.set(key, String(value)),
+        removeItem: (key) => void items.delete(key),
+        clear: () => items.clear(),
+    };
+};
+
+const loadStorage = () => import('./storage');
+
+// Puts `value` where the app keeps its events, as an older or broken app might have
+const seedDatabase = (value: unknown) =>
+    new Promise<void>((resolve, reject) => {
+        const request = indexedDB.open('ai-secretary', 2);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore('data');
+            request.result.createObjectStore('quarantine', { autoIncrement: true });
+            request.result.createObjectStore('snapshots');
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            const tx = db.transaction('data', 'readwrite');
+            tx.objectStore('data').put(value, 'events');
+            tx.oncomplete = () => {
+                db.close();
+                resolve();
+            };
+            tx.onerror = () => reject(tx.error);
+        };
+        request.onerror = () => reject(request.error);
+    });
+
+const meeting: CalendarEvent = { id: 'a', title: '会議', date: '2026-10-20T01:00:00.000Z' };
+const lunch: CalendarEvent = { id: 'b', title: 'ランチ', date: '2026-10-21T03:00:00.000Z', recurrence: { frequency: 'weekly' } };
+
+describe('loadEvents', () => {
+    beforeEach(() => {
+        vi.resetModules();
+        vi.stubGlobal('window', globalThis);
+        vi.stubGlobal('localStorage', memoryStorage());
+        vi.stubGlobal('indexedDB', new IDBFactory());
+    });
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('starts with the sample events only on a first run', async () => {
+        const { loadEvents } = await loadStorage();
+        const result = await loadEvents();
+        expect(result.status).toBe('first-run');
+        expect(result.events.length).toBeGreaterThan(0);
+    });
+
+    it('quarantines unparsable JSON and never replaces it with sample events', async () => {
+        localStorage.setItem('ai-secretary-events', '[{"id":"a","title":"会議"');
+        const { loadEvents, loadQuarantine } = await loadStorage();
+
+        expect(await loadEvents()).toEqual({ events: [], tombstones: [], status: 'recovered', rejected: 0 });
+        expect(await loadQuarantine()).toEqual([
+            expect.objectContaining({ reason: 'unparsable JSON', data: '[{"id":"a","title":"会議"' }),
+        ]);
+        // Left in place for recovery, and a reload still doesn't treat it as a first run
+        expect(localStorage.getItem('ai-secretary-events')).toBe('[{"id":"a","title":"会議"');
+        expect((await loadEvents()).status).toBe('recovered');
+    });
+
+    it('quarantines a record in an unknown format', async () => {
+        await seedDatabase({ events: 'garbage' });
+        const { loadEvents, loadQuarantine } = await loadStorage();
+
+        expect(await loadEvents()).toMatchObject({ events: [], status: 'recovered' });
+        expect(await loadQuarantine()).toEqual([expect.objectContaining({ reason: 'unrecognized format', data: { events: 'garbage' } })]);
+        expect((await loadEvents()).status).toBe('recovered');
+    });
+
+    it('migrates a v1 list from localStorage to v3 in IndexedDB', async () => {
+        localStorage.setItem('ai-secretary-events', JSON.stringify([meeting, lunch]));
+        const { loadEvents } = await loadStorage();
+
+        expect(await loadEvents()).toEqual({ events: [meeting, lunch], tombstones: [], status: 'ok', rejected: 0 });
+        expect(localStorage.getItem('ai-secretary-events')).toBeNull();
+        // Read back from IndexedDB as v3, with nothing left to migrate
+        vi.resetModules();
+        expect(await (await loadStorage()).loadEvents()).toEqual({ events: [meeting, lunch], tombstones: [], status: 'ok', rejected: 0 });
+    });
+
+    it('migrates a v2 record to v3', async () => {
+        await seedDatabase({ version: 2, events: [meeting] });
+        const { loadEvents } = await loadStorage();
+        expect(await loadEvents()).toEqual({ events: [meeting], tombstones: [], status: 'ok', rejected: 0 });
+    });
+
+    it('keeps the valid events of a partly broken list and quarantines the whole record', async () => {
+        const broken = [meeting, { id: 'x', title: '日付なし' }, { ...lunch, recurrence: { frequency: 'hourly' } }, 'not an event'];
+        await seedDatabase({ version: 3, events: broken, tombstones: [{ id: 'gone', deletedAt: '2026-10-01T00:00:00.000Z' }] });
+        const { loadEvents, loadQuarantine } = await loadStorage();
+
+        expect(await loadEvents()).toEqual({
+            events: [meeting],
+            tombstones: [{ id: 'gone', deletedAt: '2026-10-01T00:00:00.000Z' }],
+            status: 'recovered',
+            rejected: 3,
+        });
+        expect(await loadQuarantine()).toEqual([
+            expect.objectContaining({ reason: '3 malformed events', data: expect.objectContaining({ events: broken }) }),
+        ]);
+    });
+
+    it('refuses data saved by a newer version', async () => {
+        await seedDatabase({ version: 99, events: [meeting], tombstones: [] });
+        const { loadEvents, loadQuarantine } = await loadStorage();
+        expect(await loadEvents()).toMatchObject({ events: [], status: 'recovered' });
+        expect((await loadQuarantine())[0].reason).toBe('saved by a newer version (v99)');
+    });
+});
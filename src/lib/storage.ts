@@ -0,0 +1,402 @@
+import type { BackupBundle } from './backup';
+import type { CalendarEvent } from './calendar';
+import { RECURRENCE_LABELS, type RecurrenceRule } from './recurrence';
+import { isValidTimeZone } from './timezone';
+
+// ------- Schema -------
+// v1: a bare CalendarEvent[] in localStorage
+// v2: { version, events } in IndexedDB, where the service worker reads it too
+// v3: adds tombstones for deleted events, so deletions sync too
+
+export const SCHEMA_VERSION = 3;
+
+export interface Tombstone {
+    id: string;
+    deletedAt: string; // ISO string
+}
+
+export interface StoredEvents {
+    version: number;
+    events: CalendarEvent[];
+    tombstones: Tombstone[];
+}
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = (v) => typeof v === 'string';
+const isBoolean: Check = (v) => typeof v === 'boolean';
+const isDateTime: Check = (v) => typeof v === 'string' && !isNaN(new Date(v).getTime());
+const isDateKey: Check = (v) => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v);
+const isPositiveInt: Check = (v) => Number.isInteger(v) && (v as number) >= 1;
+const isMinutes: Check = (v) => Number.isInteger(v) && (v as number) >= 0;
+const isWeekday: Check = (v) => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 6;
+const arrayOf = (check: Check): Check => (v) => Array.isArray(v) && v.every(check);
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * Copies the schema's fields out of `value` when every field present passes
+ * its check and the required ones are there; unknown fields are dropped.
+ */
+const conformTo = <T>(value: unknown, schema: Record<string, Check>, required: string[]): T | null => {
+    if (!isObject(value)) return null;
+    const result: Record<string, unknown> = {};
+    for (const [field, check] of Object.entries(schema)) {
+        const v = value[field];
+        if (v === undefined || v === null) {
+            if (required.includes(field)) return null;
+            continue;
+        }
+        if (!check(v)) return null;
+        result[field] = v;
+    }
+    return result as T;
+};
+
+// Keyed by the interface so a new field can't be added without its check
+const RECURRENCE_SCHEMA: Record<keyof RecurrenceRule, Check> = {
+    frequency: (v) => typeof v === 'string' && v in RECURRENCE_LABELS,
+    interval: isPositiveInt,
+    weekdays: arrayOf(isWeekday),
+    until: isDateKey,
+    count: isPositiveInt,
+    exdates: arrayOf(isDateKey),
+};
+
+const EVENT_SCHEMA: Record<keyof CalendarEvent, Check> = {
+    id: (v) => typeof v === 'string' && v.length > 0,
+    title: isString,
+    date: isDateTime,
+    end: isDateTime,
+    allDay: isBoolean,
+    timeZone: (v) => typeof v === 'string' && isValidTimeZone(v),
+    description: isString,
+    color: isString,
+    categoryId: isString,
+    tags: arrayOf(isString),
+    recurrence: (v) => conformTo<RecurrenceRule>(v, RECURRENCE_SCHEMA, ['frequency']) !== null,
+    reminders: arrayOf(isMinutes),
+    doneDates: arrayOf(isDateKey),
+    readOnly: isBoolean,
+    feedId: isString,
+    updatedAt: isDateTime,
+};
+
+const TOMBSTONE_SCHEMA: Record<keyof Tombstone, Check> = {
+    id: (v) => typeof v === 'string' && v.length > 0,
+    deletedAt: isDateTime,
+};
+
+export const parseCalendarEvent = (value: unknown): CalendarEvent | null => {
+    const event = conformTo<CalendarEvent>(value, EVENT_SCHEMA, ['id', 'title', 'date']);
+    if (event?.recurrence) {
+        event.recurrence = conformTo<RecurrenceRule>(event.recurrence, RECURRENCE_SCHEMA, ['frequency'])!;
+    }
+    return event;
+};
+
+// Well-formed events, first of each id; everything else comes back as `rejected`
+export const parseEvents = (values: unknown[]): { events: CalendarEvent[]; rejected: unknown[] } => {
+    const events: CalendarEvent[] = [];
+    const rejected: unknown[] = [];
+    const seen = new Set<string>();
+    for (const value of values) {
+        const event = parseCalendarEvent(value);
+        if (event && !seen.has(event.id)) {
+            seen.add(event.id);
+            events.push(event);
+        } else {
+            rejected.push(value);
+        }
+    }
+    return { events, rejected };
+};
+
+export const parseTombstones = (values: unknown[]): Tombstone[] =>
+    values
+        .map((value) => conformTo<Tombstone>(value, TOMBSTONE_SCHEMA, ['id', 'deletedAt']))
+        .filter((t): t is Tombstone => t !== null);
+
+// ------- Migrations -------
+
+// Each step takes data saved by version n to version n + 1
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+    1: (events) => ({ version: 2, events }),
+    2: (data) => ({ ...(data as object), version: 3, tombstones: [] }),
+};
+
+const migrate = (data: unknown): StoredEvents => {
+    let version = Array.isArray(data) ? 1 : isObject(data) && Number.isInteger(data.version) ? (data.version as number) : 0;
+    if (version < 1) throw new Error('unrecognized format');
+    if (version > SCHEMA_VERSION) throw new Error(`saved by a newer version (v${version})`);
+    let current = data;
+    while (version < SCHEMA_VERSION) {
+        current = MIGRATIONS[version](current);
+        version++;
+    }
+    if (!isObject(current) || !Array.isArray(current.events) || !Array.isArray(current.tombstones)) {
+        throw new Error('events are missing');
+    }
+    return current as unknown as StoredEvents;
+};
+
+// ------- IndexedDB -------
+// public/sw.js opens the same database; keep the two in step
+
+const DB_NAME = 'ai-secretary';
+const DB_VERSION = 2; // v2: snapshots
+const DATA_STORE = 'data'; // 'events' → StoredEvents
+const QUARANTINE_STORE = 'quarantine';
+const SNAPSHOT_STORE = 'snapshots'; // exportedAt → BackupBundle
+const EVENTS_KEY = 'events';
+
+// v1 lived here; also the fallback when IndexedDB can't be opened
+const LEGACY_KEY = 'ai-secretary-events';
+const LEGACY_QUARANTINE_KEY = 'ai-secretary-quarantine';
+const LEGACY_SNAPSHOT_KEY = 'ai-secretary-snapshots';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (e) => {
+                if (e.oldVersion < 1) {
+                    request.result.createObjectStore(DATA_STORE);
+                    request.result.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+                }
+                if (e.oldVersion < 2) request.result.createObjectStore(SNAPSHOT_STORE);
+            };
+            request.onsuccess = () => {
+                // Let a newer version of the app (or the service worker) upgrade
+                request.result.onversionchange = () => {
+                    request.result.close();
+                    dbPromise = null;
+                };
+                resolve(request.result);
+            };
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runTransaction = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+// ------- Quarantine -------
+// Data that failed to load is set aside here rather than overwritten
+
+export interface QuarantineEntry {
+    at: string; // ISO string
+    reason: string;
+    data: unknown; // as found, possibly an unparsable string
+}
+
+const quarantine = async (reason: string, data: unknown) => {
+    const entry: QuarantineEntry = { at: new Date().toISOString(), reason, data };
+    try {
+        await runTransaction(QUARANTINE_STORE, 'readwrite', (store) => store.add(entry));
+    } catch {
+        try {
+            const existing = JSON.parse(localStorage.getItem(LEGACY_QUARANTINE_KEY) ?? '[]');
+            localStorage.setItem(LEGACY_QUARANTINE_KEY, JSON.stringify([...existing, entry]));
+        } catch {
+            // ignore
+        }
+    }
+};
+
+export const loadQuarantine = async (): Promise<QuarantineEntry[]> => {
+    if (typeof window === 'undefined') return [];
+    let entries: QuarantineEntry[] = [];
+    try {
+        entries = await runTransaction(QUARANTINE_STORE, 'readonly', (store) => store.getAll());
+    } catch {
+        // ignore
+    }
+    try {
+        entries = [...entries, ...JSON.parse(localStorage.getItem(LEGACY_QUARANTINE_KEY) ?? '[]')];
+    } catch {
+        // ignore
+    }
+    return entries;
+};
+
+// ------- Snapshots -------
+// Automatic backups, newest last; keys are exportedAt so they sort by time
+
+const readLegacySnapshots = (): BackupBundle[] => {
+    try {
+        return JSON.parse(localStorage.getItem(LEGACY_SNAPSHOT_KEY) ?? '[]');
+    } catch {
+        return [];
+    }
+};
+
+export const loadSnapshots = async (): Promise<BackupBundle[]> => {
+    if (typeof window === 'undefined') return [];
+    try {
+        return await runTransaction(SNAPSHOT_STORE, 'readonly', (store) => store.getAll());
+    } catch {
+        return readLegacySnapshots();
+    }
+};
+
+// Adds the snapshot and drops the oldest beyond `keep`
+export const saveSnapshot = async (bundle: BackupBundle, keep: number) => {
+    if (typeof window === 'undefined') return;
+    try {
+        await runTransaction(SNAPSHOT_STORE, 'readwrite', (store) => store.put(bundle, bundle.exportedAt));
+        const keys = await runTransaction(SNAPSHOT_STORE, 'readonly', (store) => store.getAllKeys());
+        if (keys.length > keep) {
+            const oldest = IDBKeyRange.upperBound(keys[keys.length - keep - 1]);
+            await runTransaction(SNAPSHOT_STORE, 'readwrite', (store) => store.delete(oldest));
+        }
+    } catch {
+        try {
+            localStorage.setItem(LEGACY_SNAPSHOT_KEY, JSON.stringify([...readLegacySnapshots(), bundle].slice(-keep)));
+        } catch {
+            // ignore
+        }
+    }
+};
+
+// ------- Events -------
+
+export type LoadStatus = 'ok' | 'first-run' | 'recovered';
+
+export interface LoadResult {
+    events: CalendarEvent[];
+    tombstones: Tombstone[];
+    status: LoadStatus; // 'recovered': some or all data was quarantined
+    rejected: number; // events that could not be read
+}
+
+// Resolves to where the events ended up
+const writeEvents = async (events: CalendarEvent[], tombstones: Tombstone[]): Promise<'indexeddb' | 'localstorage'> => {
+    const record: StoredEvents = { version: SCHEMA_VERSION, events, tombstones };
+    try {
+        await runTransaction(DATA_STORE, 'readwrite', (store) => store.put(record, EVENTS_KEY));
+        return 'indexeddb';
+    } catch {
+        localStorage.setItem(LEGACY_KEY, JSON.stringify(record));
+        return 'localstorage';
+    }
+};
+
+export const saveEvents = async (events: CalendarEvent[], tombstones: Tombstone[] = []) => {
+    if (typeof window === 'undefined') return;
+    await writeEvents(events, tombstones);
+};
+
+/**
+ * Reads the saved events, migrating older formats. Anything unreadable is
+ * quarantined and left out; the sample events appear only when nothing has
+ * ever been saved.
+ */
+export const loadEvents = async (): Promise<LoadResult> => {
+    if (typeof window === 'undefined') return { events: [], tombstones: [], status: 'ok', rejected: 0 };
+
+    let raw: unknown;
+    let databaseReadable = true;
+    try {
+        raw = await runTransaction(DATA_STORE, 'readonly', (store) => store.get(EVENTS_KEY));
+    } catch {
+        databaseReadable = false;
+    }
+
+    const fromLegacy = raw === undefined;
+    if (fromLegacy) {
+        const legacy = localStorage.getItem(LEGACY_KEY);
+        if (legacy === null) {
+            // An unreadable database is not a first run
+            if (!databaseReadable) return { events: [], tombstones: [], status: 'ok', rejected: 0 };
+            const events = getSampleEvents();
+            await writeEvents(events, []);
+            return { events, tombstones: [], status: 'first-run', rejected: 0 };
+        }
+        try {
+            raw = JSON.parse(legacy);
+        } catch {
+            await quarantine('unparsable JSON', legacy);
+            return { events: [], tombstones: [], status: 'recovered', rejected: 0 };
+        }
+    }
+
+    let record: StoredEvents;
+    try {
+        record = migrate(raw);
+    } catch (err) {
+        await quarantine(err instanceof Error ? err.message : 'migration failed', raw);
+        return { events: [], tombstones: [], status: 'recovered', rejected: 0 };
+    }
+
+    const { events, rejected } = parseEvents(record.events);
+    const tombstones = parseTombstones(record.tombstones);
+    if (rejected.length > 0) await quarantine(`${rejected.length} malformed events`, raw);
+    if (fromLegacy || (isObject(raw) && raw.version !== SCHEMA_VERSION)) {
+        const target = await writeEvents(events, tombstones);
+        if (target === 'indexeddb') localStorage.removeItem(LEGACY_KEY);
+    }
+    return { events, tombstones, status: rejected.length > 0 ? 'recovered' : 'ok', rejected: rejected.length };
+};
+
+// Sample events for first-time users
+const getSampleEvents = (): CalendarEvent[] => {
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    const tomorrow = new Date(today);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+
+    const nextWeek = new Date(today);
+    nextWeek.setDate(nextWeek.getDate() + 5);
+
+    return [
+        {
+            id: crypto.randomUUID(),
+            title: 'ランチミーティング',
+            date: new Date(today.getFullYear(), today.getMonth(), today.getDate(), 12, 0).toISOString(),
+            description: '佐藤さんと渋谷で',
+            color: 'blue',
+        },
+        {
+            id: crypto.randomUUID(),
+            title: 'ジム',
+            date: new Date(today.getFullYear(), today.getMonth(), today.getDate(), 18, 0).toISOString(),
+            description: '背中トレーニング',
+            color: 'green',
+        },
+        {
+            id: crypto.randomUUID(),
+            title: '美容院',
+            date: new Date(tomorrow.getFullYear(), tomorrow.getMonth(), tomorrow.getDate(), 11, 0).toISOString(),
+            description: '11:00予約',
+            color: 'purple',
+        },
+        {
+            id: crypto.randomUUID(),
+            title: 'プロジェクト会議',
+            date: new Date(nextWeek.getFullYear(), nextWeek.getMonth(), nextWeek.getDate(), 14, 0).toISOString(),
+            description: 'Zoom会議',
+            color: 'red',
+        },
+    ];
+};
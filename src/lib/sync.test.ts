@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { CalendarEvent } from './calendar';
+import { applyLocalChanges, mergeStates, type SyncState } from './sync';
+
+const T1 = '2026-10-19T01:00:00.000Z';
+const T2 = '2026-10-19T02:00:00.000Z';
+
+const event = (id: string, title: string, updatedAt?: string): CalendarEvent => ({
+    id,
+    title,
+    date: '2026-10-20T01:00:00.000Z',
+    updatedAt,
+});
+
+const state = (events: CalendarEvent[], tombstones: SyncState['tombstones'] = []): SyncState => ({ events, tombstones });
+
+describe('applyLocalChanges', () => {
+    it('stamps changed and new events, keeps unchanged ones and leaves a tombstone for removed ones', () => {
+        const before = state([event('a', '会議', T1), event('b', 'ランチ', T1)]);
+        const { state: after, changed } = applyLocalChanges(
+            before,
+            [{ ...event('a', '会議'), updatedAt: T1 }, event('c', '新しい予定')],
+            new Date(T2)
+        );
+        expect(changed.sort()).toEqual(['b', 'c']);
+        expect(after.events).toEqual([before.events[0], event('c', '新しい予定', T2)]);
+        expect(after.tombstones).toEqual([{ id: 'b', deletedAt: T2 }]);
+    });
+
+    it('returns the same state when nothing changed', () => {
+        const before = state([event('a', '会議', T1)]);
+        const result = applyLocalChanges(before, [{ ...event('a', '会議'), updatedAt: T2 }], new Date(T2));
+        expect(result).toEqual({ state: before, changed: [] });
+    });
+});
+
+describe('mergeStates', () => {
+    it('keeps whichever side wrote last', () => {
+        const local = state([event('a', 'ローカル', T1), event('b', 'ローカル', T2)]);
+        const remote = state([event('a', 'リモート', T2), event('b', 'リモート', T1)]);
+        const { state: merged, updated } = mergeStates(local, remote);
+        expect(updated).toEqual(['a']);
+        expect(merged.events.map((e) => e.title)).toEqual(['リモート', 'ローカル']);
+    });
+
+    it('lets a newer deletion beat an older edit, and a newer edit beat an older deletion', () => {
+        const deleted = mergeStates(state([event('a', '会議', T1)]), state([], [{ id: 'a', deletedAt: T2 }]));
+        expect(deleted.state).toEqual(state([], [{ id: 'a', deletedAt: T2 }]));
+
+        const restored = mergeStates(state([], [{ id: 'a', deletedAt: T1 }]), state([event('a', '会議', T2)]));
+        expect(restored.state).toEqual(state([event('a', '会議', T2)]));
+    });
+
+    it('lets the deletion win a tie, from either side', () => {
+        const tombstone = { id: 'a', deletedAt: T1 };
+        expect(mergeStates(state([event('a', '会議', T1)]), state([], [tombstone])).state).toEqual(state([], [tombstone]));
+        const kept = mergeStates(state([], [tombstone]), state([event('a', '会議', T1)]));
+        expect(kept.updated).toEqual([]);
+        expect(kept.state).toEqual(state([], [tombstone]));
+    });
+
+    it('breaks a tie between two edits by content, the same way on both sides', () => {
+        const x = event('a', 'X', T1);
+        const y = event('a', 'Y', T1);
+        expect(mergeStates(state([x]), state([y])).state).toEqual(mergeStates(state([y]), state([x])).state);
+    });
+
+    it('reports pending local edits that lost as conflicts', () => {
+        const mine = event('a', 'ローカル', T1);
+        const { conflicts } = mergeStates(state([mine]), state([event('a', 'リモート', T2)]), new Set(['a']));
+        expect(conflicts).toEqual([mine]);
+        expect(mergeStates(state([mine]), state([event('a', 'リモート', T2)])).conflicts).toEqual([]);
+    });
+});
@@ -0,0 +1,218 @@
+import { subDays } from 'date-fns';
+import type { CalendarEvent } from './calendar';
+import type { Tombstone } from './storage';
+
+// Everything that syncs: live events plus when deleted ones went away
+export interface SyncState {
+    events: CalendarEvent[];
+    tombstones: Tombstone[];
+}
+
+// ------- Versions -------
+
+// Long enough for a device that was offline a while to learn about deletions
+const TOMBSTONE_TTL_DAYS = 90;
+
+// Key order doesn't matter, so events built by spreading still compare equal
+const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const contentOf = (event: CalendarEvent) => stableStringify({ ...event, updatedAt: undefined });
+
+// Same event apart from when it was last stamped
+export const isSameContent = (a: CalendarEvent, b: CalendarEvent) => contentOf(a) === contentOf(b);
+
+// When this side last changed the id: its updatedAt, or when it was deleted
+export const versionOf = (state: SyncState, id: string): string | undefined => {
+    const event = state.events.find((e) => e.id === id);
+    if (event) return event.updatedAt ?? '';
+    return state.tombstones.find((t) => t.id === id)?.deletedAt;
+};
+
+/**
+ * Stamps `updatedAt` on events that differ from the last known state and
+ * turns removed ones into tombstones. Returns the ids that changed.
+ */
+export const applyLocalChanges = (
+    state: SyncState,
+    next: CalendarEvent[],
+    now: Date = new Date()
+): { state: SyncState; changed: string[] } => {
+    const stamp = now.toISOString();
+    const known = new Map(state.events.map((e) => [e.id, e]));
+    const changed: string[] = [];
+
+    const events = next.map((event) => {
+        const previous = known.get(event.id);
+        if (previous && isSameContent(previous, event)) return previous;
+        changed.push(event.id);
+        return { ...event, updatedAt: stamp };
+    });
+
+    const nextIds = new Set(next.map((e) => e.id));
+    const removed = state.events.filter((e) => !nextIds.has(e.id));
+    changed.push(...removed.map((e) => e.id));
+
+    const cutoff = subDays(now, TOMBSTONE_TTL_DAYS).toISOString();
+    const tombstones = [
+        ...state.tombstones.filter((t) => !nextIds.has(t.id) && t.deletedAt > cutoff),
+        ...removed.map((e) => ({ id: e.id, deletedAt: stamp })),
+    ];
+    if (changed.length === 0 && tombstones.length === state.tombstones.length) return { state, changed };
+    return { state: { events, tombstones }, changed };
+};
+
+type Version = { id: string; at: string; event?: CalendarEvent; tombstone?: Tombstone };
+
+const versionsOf = ({ events, tombstones }: SyncState): Version[] => [
+    ...events.map((event) => ({ id: event.id, at: event.updatedAt ?? '', event })),
+    ...tombstones.map((tombstone) => ({ id: tombstone.id, at: tombstone.deletedAt, tombstone })),
+];
+
+// Last writer wins; on a tie a deletion wins, then the content decides so every side agrees
+const isNewer = (a: Version, b: Version) => {
+    if (a.at !== b.at) return a.at > b.at;
+    if (!!a.tombstone !== !!b.tombstone) return !!a.tombstone;
+    if (a.event && b.event) return contentOf(a.event) > contentOf(b.event);
+    return false;
+};
+
+/**
+ * Merges what another tab, device or the server sent into the local state,
+ * id by id; `updated` are the ids that took the remote version. `pending` are
+ * local changes not yet confirmed by the server; those that lost to a newer
+ * remote version come back as `conflicts`.
+ */
+export const mergeStates = (
+    local: SyncState,
+    remote: SyncState,
+    pending: Set<string> = new Set()
+): { state: SyncState; updated: string[]; conflicts: CalendarEvent[] } => {
+    const merged = new Map<string, Version>();
+    for (const version of versionsOf(local)) merged.set(version.id, version);
+
+    const updated: string[] = [];
+    const conflicts: CalendarEvent[] = [];
+    for (const version of versionsOf(remote)) {
+        const current = merged.get(version.id);
+        if (current && !isNewer(version, current)) continue;
+        if (current?.event && pending.has(version.id)) conflicts.push(current.event);
+        merged.set(version.id, version);
+        updated.push(version.id);
+    }
+    if (updated.length === 0) return { state: local, updated, conflicts };
+
+    const versions = [...merged.values()];
+    return {
+        state: {
+            events: versions.flatMap((v) => (v.event ? [v.event] : [])),
+            tombstones: versions.flatMap((v) => (v.tombstone ? [v.tombstone] : [])),
+        },
+        updated,
+        conflicts,
+    };
+};
+
+// ------- Tabs (BroadcastChannel) -------
+
+const TAB_CHANNEL = 'ai-secretary-sync';
+
+export interface TabChannel {
+    post: (state: SyncState) => void;
+    close: () => void;
+}
+
+// Other tabs of this app: each sends its state after saving a change
+export const openTabChannel = (onState: (state: SyncState) => void): TabChannel | null => {
+    if (typeof BroadcastChannel === 'undefined') return null;
+    const channel = new BroadcastChannel(TAB_CHANNEL);
+    channel.onmessage = (e) => {
+        if (e.data?.type === 'state') onState(e.data.state);
+    };
+    return {
+        post: (state) => channel.postMessage({ type: 'state', state }),
+        close: () => channel.close(),
+    };
+};
+
+// ------- Server (/api/sync) -------
+
+export interface SyncStatus {
+    state: 'idle' | 'syncing' | 'offline' | 'error';
+    lastSynced?: string; // ISO string
+    error?: string;
+}
+
+export interface SyncRequest extends SyncState {
+    since: number; // cursor from the last response, 0 for everything
+}
+
+export interface SyncResponse extends SyncState {
+    cursor: number;
+}
+
+// What still has to reach the server; kept across reloads so offline edits replay
+export interface SyncQueue {
+    cursor: number;
+    pending: string[]; // ids changed locally since the last successful sync
+}
+
+const SYNC_QUEUE_KEY = 'ai-secretary-sync';
+const SYNC_TIMEOUT_MS = 15000;
+
+export const loadSyncQueue = (): SyncQueue => {
+    if (typeof window === 'undefined') return { cursor: 0, pending: [] };
+    try {
+        const data = localStorage.getItem(SYNC_QUEUE_KEY);
+        if (data) return { cursor: 0, pending: [], ...JSON.parse(data) };
+    } catch {
+        // ignore
+    }
+    return { cursor: 0, pending: [] };
+};
+
+export const saveSyncQueue = (queue: SyncQueue) => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+};
+
+export const queueChanges = (ids: string[]) => {
+    const queue = loadSyncQueue();
+    saveSyncQueue({ ...queue, pending: Array.from(new Set([...queue.pending, ...ids])) });
+};
+
+/**
+ * Sends the queued changes and receives everything the server has seen since
+ * the last cursor. Throws when offline or on any server error, leaving the
+ * queue for the next attempt.
+ */
+export const pushPull = async (state: SyncState, queue: SyncQueue, token: string): Promise<SyncResponse> => {
+    const pending = new Set(queue.pending);
+    const body: SyncRequest = {
+        since: queue.cursor,
+        events: state.events.filter((e) => pending.has(e.id)),
+        tombstones: state.tombstones.filter((t) => pending.has(t.id)),
+    };
+    const response = await fetch('/api/sync', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(SYNC_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error ?? `HTTP ${response.status}`);
+    }
+    return response.json();
+};
@@ -0,0 +1,202 @@
+import { addDays, format, parse, parseISO } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import { toDateKey } from './recurrence';
+
+// ------- Tasks -------
+// To-dos beside the calendar: at most a due day, never a time slot
+
+export type TaskPriority = 'high' | 'normal' | 'low';
+
+export interface Subtask {
+    id: string;
+    title: string;
+    completed: boolean;
+}
+
+export interface Task {
+    id: string;
+    title: string;
+    due?: string; // yyyy-MM-dd
+    dueTime?: string; // HH:mm the due reminder fires at; unset = TASK_REMINDER_TIME
+    priority: TaskPriority;
+    completed: boolean;
+    completedAt?: string; // ISO string
+    subtasks: Subtask[];
+    createdAt: string; // ISO string
+}
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = { high: '高', normal: '中', low: '低' };
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 0, normal: 1, low: 2 };
+
+export const createTask = (title: string, fields: Partial<Task> = {}, now: Date = new Date()): Task => ({
+    id: crypto.randomUUID(),
+    title,
+    priority: 'normal',
+    completed: false,
+    subtasks: [],
+    createdAt: now.toISOString(),
+    ...fields,
+});
+
+// Still open with its due day behind us
+export const isOverdue = (task: Task, today: Date = new Date()) =>
+    !task.completed && !!task.due && task.due < toDateKey(today);
+
+// Open tasks first; then by due day (undated last), priority and age
+export const sortTasks = (tasks: Task[]) =>
+    [...tasks].sort(
+        (a, b) =>
+            Number(a.completed) - Number(b.completed) ||
+            (a.due ?? '\uffff').localeCompare(b.due ?? '\uffff') ||
+            PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+            a.createdAt.localeCompare(b.createdAt)
+    );
+
+export const openTasksDueOn = (tasks: Task[], day: Date) =>
+    tasks.filter((t) => !t.completed && t.due === toDateKey(day));
+
+// What's on the plate on `day`: due then, plus everything overdue rolling over
+export const tasksForDay = (tasks: Task[], day: Date) =>
+    sortTasks(tasks.filter((t) => !t.completed && !!t.due && t.due <= toDateKey(day)));
+
+export const toggleTask = (task: Task, now: Date = new Date()): Task =>
+    task.completed
+        ? { ...task, completed: false, completedAt: undefined }
+        : { ...task, completed: true, completedAt: now.toISOString() };
+
+export const toggleSubtask = (task: Task, subtaskId: string): Task => ({
+    ...task,
+    subtasks: task.subtasks.map((s) => (s.id === subtaskId ? { ...s, completed: !s.completed } : s)),
+});
+
+// 「2/3」, or '' without subtasks
+export const describeProgress = (task: Task) =>
+    task.subtasks.length > 0 ? `${task.subtasks.filter((s) => s.completed).length}/${task.subtasks.length}` : '';
+
+// 「10月21日(水)まで」「期限切れ 10月18日(日)」
+export const describeDue = (task: Task, today: Date = new Date()) => {
+    if (!task.due) return '';
+    const day = format(parseISO(task.due), 'M月d日(E)', { locale: ja });
+    const time = task.dueTime ? ` ${task.dueTime}` : '';
+    return isOverdue(task, today) ? `期限切れ ${day}` : `${day}${time}まで`;
+};
+
+// 「⚠️ レポート提出（10月18日(日)まで）」; for chat replies and the morning digest
+export const describeTaskLine = (task: Task, today: Date = new Date()) => {
+    const mark = task.completed ? '✅' : isOverdue(task, today) ? '⚠️' : task.priority === 'high' ? '❗' : '☐';
+    const details = [describeDue(task, today), describeProgress(task)].filter(Boolean).join('・');
+    return `${mark} ${task.title}${details ? `（${details}）` : ''}`;
+};
+
+// ------- Due Reminders -------
+// Built by the page like the digests and handed to the service worker
+
+export interface TaskReminder {
+    key: string; // per task and due day
+    fireAt: number; // epoch ms
+    title: string;
+    body: string;
+    taskId: string;
+    date: string; // yyyy-MM-dd it is due
+}
+
+export const TASK_REMINDER_TIME = '09:00';
+
+// Same horizon as the digests, so reminders come on days the app isn't opened
+const TASK_REMINDER_DAYS = 7;
+
+export const buildTaskReminders = (tasks: Task[], now: Date = new Date()): TaskReminder[] => {
+    const horizon = toDateKey(addDays(now, TASK_REMINDER_DAYS));
+    return tasks.flatMap((task) => {
+        if (task.completed || !task.due || task.due > horizon) return [];
+        const fireAt = parse(task.dueTime ?? TASK_REMINDER_TIME, 'HH:mm', parseISO(task.due));
+        if (isNaN(fireAt.getTime()) || fireAt <= now) return [];
+        const progress = describeProgress(task);
+        return [
+            {
+                key: `${task.id}-${task.due}`,
+                fireAt: fireAt.getTime(),
+                title: '✅ 今日が期限のタスク',
+                body: `${task.title}${progress ? `（サブタスク ${progress}）` : ''}`,
+                taskId: task.id,
+                date: task.due,
+            },
+        ];
+    });
+};
+
+// ------- Chat -------
+
+// 「牛乳を買うをタスクに追加」「明日までにレポートをやることリストに入れて」「請求書を金曜までにタスクに追加」
+const TASK_COMMAND_PATTERN = /^(.+)を(\S+?までに?)?(?:タスク|やること|TODO|ToDo|todo)(?:リスト)?(?:に|へ)(?:追加|入れて|登録)/;
+
+// 「やることリスト」「タスクは？」「今日のタスク一覧を見せて」
+export const TASK_LIST_PATTERN =
+    /^(?:今日の|残りの)?(?:やること|タスク|TODO|ToDo|todo)(?:リスト|一覧)?(?:は|を|って)?(?:何|なに|ある|見せて|教えて|確認)?[?？!！。\s]*$/;
+
+/**
+ * The task named in an add command, or null when `input` isn't one. A day
+ * followed by 「まで(に)」 becomes the due day, found by `parseDay`; 「重要」 or
+ * 「急ぎ」 raise the priority.
+ */
+export const parseTaskCommand = (
+    input: string,
+    parseDay: (text: string) => { date: Date; match: string } | null
+): Pick<Task, 'title' | 'due' | 'priority'> | null => {
+    const m = input.trim().match(TASK_COMMAND_PATTERN);
+    if (!m) return null;
+    let title = m[2] ? `${m[2]}${m[1]}` : m[1];
+    let due: string | undefined;
+    const day = parseDay(title);
+    const at = day ? title.indexOf(`${day.match}まで`) : -1;
+    if (day && at >= 0) {
+        due = toDateKey(day.date);
+        const rest = title.slice(at + day.match.length + 'まで'.length).replace(/^に?[、\s]*/, '');
+        title = `${title.slice(0, at)}${rest}`.replace(/[、\s]+$/, '');
+    }
+    const priority: TaskPriority = /重要|急ぎ|至急/.test(title) ? 'high' : 'normal';
+    title = title.replace(/^(?:重要|急ぎ|至急)[:：、\s]*|[（(](?:重要|急ぎ|至急)[)）]/g, '').trim();
+    return title ? { title, due, priority } : null;
+};
+
+// ------- Storage -------
+
+const TASKS_KEY = 'ai-secretary-tasks';
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isSubtask = (v: unknown): v is Subtask =>
+    isObject(v) && typeof v.id === 'string' && typeof v.title === 'string' && typeof v.completed === 'boolean';
+
+export const isTask = (v: unknown): v is Task =>
+    isObject(v) &&
+    typeof v.id === 'string' &&
+    typeof v.title === 'string' &&
+    (v.due === undefined || (typeof v.due === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v.due))) &&
+    (v.dueTime === undefined || (typeof v.dueTime === 'string' && /^\d{2}:\d{2}$/.test(v.dueTime))) &&
+    typeof v.priority === 'string' &&
+    v.priority in PRIORITY_RANK &&
+    typeof v.completed === 'boolean' &&
+    Array.isArray(v.subtasks) &&
+    v.subtasks.every(isSubtask) &&
+    typeof v.createdAt === 'string';
+
+export const loadTasks = (): Task[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const data = localStorage.getItem(TASKS_KEY);
+        if (data) {
+            const parsed = JSON.parse(data);
+            if (Array.isArray(parsed)) return parsed.filter(isTask);
+        }
+    } catch {
+        // ignore
+    }
+    return [];
+};
+
+export const saveTasks = (tasks: Task[]) => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(TASKS_KEY, JSON.stringify(tasks));
+};
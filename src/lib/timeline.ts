@@ -0,0 +1,97 @@
+import { addDays, startOfDay, startOfWeek, differenceInMinutes } from 'date-fns';
+import { CalendarEvent, isMultiDayEvent } from './calendar';
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+export const VIEW_LABELS: Record<CalendarView, string> = {
+    month: '月',
+    week: '週',
+    day: '日',
+};
+
+// Events without an end still get a visible block
+const MIN_BLOCK_MINUTES = 30;
+
+export interface TimelineBlock {
+    event: CalendarEvent;
+    top: number; // minutes since midnight
+    height: number; // minutes
+    column: number;
+    columns: number; // columns in its overlap group
+}
+
+export const getWeekDays = (date: Date) => {
+    const weekStart = startOfWeek(date, { weekStartsOn: 0 });
+    return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+};
+
+// All-day and multi-day events go in the row above the hours instead of the timeline
+export const isTimelineEvent = (event: CalendarEvent) => !event.allDay && !isMultiDayEvent(event);
+
+/**
+ * Positions one day's timed events. Overlapping events share the width
+ * side by side; each group of mutually overlapping events gets as many
+ * columns as it needs at its busiest moment.
+ */
+export const layoutTimelineEvents = (dayEvents: CalendarEvent[], day: Date): TimelineBlock[] => {
+    const dayStart = startOfDay(day);
+    const items = dayEvents
+        .filter(isTimelineEvent)
+        .map((event) => {
+            const top = Math.max(0, differenceInMinutes(new Date(event.date), dayStart));
+            const end = event.end ? differenceInMinutes(new Date(event.end), dayStart) : top;
+            const bottom = Math.min(24 * 60, Math.max(end, top + MIN_BLOCK_MINUTES));
+            return { event, top, bottom };
+        })
+        .sort((a, b) => a.top - b.top || b.bottom - a.bottom);
+
+    const blocks: TimelineBlock[] = [];
+    let group: TimelineBlock[] = [];
+    let columnEnds: number[] = [];
+    let groupEnd = -1;
+
+    const closeGroup = () => {
+        for (const block of group) block.columns = columnEnds.length;
+        group = [];
+        columnEnds = [];
+    };
+
+    for (const item of items) {
+        if (item.top >= groupEnd) closeGroup();
+        let column = columnEnds.findIndex((end) => end <= item.top);
+        if (column === -1) column = columnEnds.length;
+        columnEnds[column] = item.bottom;
+        groupEnd = Math.max(groupEnd, item.bottom);
+
+        const block = { event: item.event, top: item.top, height: item.bottom - item.top, column, columns: 1 };
+        group.push(block);
+        blocks.push(block);
+    }
+    closeGroup();
+    return blocks;
+};
+
+// ------- View State (LocalStorage) -------
+
+const VIEW_KEY = 'ai-secretary-view';
+
+export interface ViewState {
+    view: CalendarView;
+    date: string; // yyyy-MM-dd of the shown date
+}
+
+export const loadViewState = (): ViewState | null => {
+    if (typeof window === 'undefined') return null;
+    try {
+        const data = localStorage.getItem(VIEW_KEY);
+        if (data) return JSON.parse(data);
+    } catch {
+        // ignore
+    }
+    return null;
+};
+
+export const saveViewState = (state: ViewState) => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(VIEW_KEY, JSON.stringify(state));
+};
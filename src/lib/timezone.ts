@@ -0,0 +1,124 @@
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+
+// ------- Zones -------
+// IANA zones via Intl; public/sw.js mirrors toZonedTime and fromZonedTime
+
+export const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (zone: string) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: zone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// For older browsers without Intl.supportedValuesOf
+const COMMON_TIME_ZONES = [
+    'Asia/Tokyo',
+    'Asia/Seoul',
+    'Asia/Shanghai',
+    'Asia/Singapore',
+    'Asia/Bangkok',
+    'Asia/Kolkata',
+    'Asia/Dubai',
+    'Europe/London',
+    'Europe/Paris',
+    'Europe/Berlin',
+    'America/New_York',
+    'America/Chicago',
+    'America/Denver',
+    'America/Los_Angeles',
+    'Pacific/Honolulu',
+    'Australia/Sydney',
+    'Pacific/Auckland',
+    'UTC',
+];
+
+export const listTimeZones = (): string[] => {
+    const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : COMMON_TIME_ZONES;
+    // The device's own zone may be an alias missing from the list
+    const device = deviceTimeZone();
+    return zones.includes(device) ? zones : [device, ...zones];
+};
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const wallClockParts = (instant: number, zone: string) => {
+    let dtf = partsFormatters.get(zone);
+    if (!dtf) {
+        dtf = new Intl.DateTimeFormat('en-US', {
+            timeZone: zone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        });
+        partsFormatters.set(zone, dtf);
+    }
+    const p = Object.fromEntries(dtf.formatToParts(new Date(instant)).map((x) => [x.type, x.value]));
+    return { year: +p.year, month: +p.month, day: +p.day, hour: +p.hour, minute: +p.minute, second: +p.second };
+};
+
+// Offset of a time zone from UTC at a given instant, in milliseconds
+export const zoneOffset = (instant: number, zone: string) => {
+    const p = wallClockParts(instant, zone);
+    const whole = instant - (((instant % 1000) + 1000) % 1000);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - whole;
+};
+
+/**
+ * The wall-clock time in `zone` at `instant`, as a Date whose local fields
+ * (getHours() and so on) read that time. Only for formatting and calendar
+ * arithmetic; convert back with fromZonedTime.
+ */
+export const toZonedTime = (instant: Date, zone: string): Date => {
+    const p = wallClockParts(instant.getTime(), zone);
+    return new Date(p.year, p.month - 1, p.day, p.hour, p.minute, p.second, instant.getMilliseconds());
+};
+
+/**
+ * The instant at which `zone` reads the local fields of `wall`. A time that
+ * falls in a spring-forward gap moves ahead by the gap (2:30 → 3:30); one that
+ * occurs twice in the fall-back hour resolves to the first.
+ */
+export const fromZonedTime = (wall: Date, zone: string): Date => {
+    const utc = Date.UTC(
+        wall.getFullYear(),
+        wall.getMonth(),
+        wall.getDate(),
+        wall.getHours(),
+        wall.getMinutes(),
+        wall.getSeconds(),
+        wall.getMilliseconds()
+    );
+    const DAY = 24 * 60 * 60 * 1000;
+    const before = zoneOffset(utc - DAY, zone);
+    const after = zoneOffset(utc + DAY, zone);
+    const valid = [utc - before, utc - after].filter((t, i) => zoneOffset(t, zone) === (i === 0 ? before : after));
+    // In a gap neither offset fits; reading it with the earlier one lands after the jump
+    return new Date(valid.length > 0 ? Math.min(...valid) : utc - before);
+};
+
+// Whether two zones read the same time at `instant`
+export const isSameOffset = (a: string, b: string, instant: Date) =>
+    zoneOffset(instant.getTime(), a) === zoneOffset(instant.getTime(), b);
+
+// ------- Formatting -------
+
+export const formatInZone = (instant: Date, zone: string, pattern: string) =>
+    format(toZonedTime(instant, zone), pattern, { locale: ja });
+
+// "New York (GMT-4)", or "Tokyo (JST)" where Japanese has a name for it
+export const describeTimeZone = (zone: string, at: Date = new Date()) => {
+    const city = zone.split('/').pop()!.replace(/_/g, ' ');
+    const name = new Intl.DateTimeFormat('ja-JP', { timeZone: zone, timeZoneName: 'short' })
+        .formatToParts(at)
+        .find((p) => p.type === 'timeZoneName')?.value;
+    return name && name !== city ? `${city} (${name})` : city;
+};
@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+    },
+    test: {
+        include: ['src/**/*.test.ts'],
+        // Wall-clock expectations are written in Japan time, where the app's users are
+        env: { TZ: 'Asia/Tokyo' },
+    },
+});